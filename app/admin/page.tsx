@@ -5,6 +5,8 @@ import { AdminHeader } from "@/components/admin/AdminHeader";
 import { IndexManagement } from "@/components/admin/IndexManagement";
 import { PageRangeConfiguration } from "@/components/admin/PageRangeConfiguration";
 import { IngestionControl } from "@/components/admin/IngestionControl";
+import { EmbeddingCacheManagement } from "@/components/admin/EmbeddingCacheManagement";
+import { OCRCacheManagement } from "@/components/admin/OCRCacheManagement";
 import type { PageRange, IndexStatus } from "@/components/admin/types";
 
 export default function AdminPage() {
@@ -24,6 +26,11 @@ export default function AdminPage() {
         <div className="mt-8">
           <IngestionControl pageRanges={pageRanges} indexStatus={indexStatus} />
         </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-8">
+          <EmbeddingCacheManagement />
+          <OCRCacheManagement />
+        </div>
       </div>
     </div>
   );
@@ -2,13 +2,17 @@ import { NextRequest, NextResponse } from "next/server";
 import { ContextRetrievalService } from "@/lib/services/context-retrieval.service";
 import { RAGEvaluationService, RAGEvaluation } from "@/lib/services/rag-evaluation.service";
 import { OpenAIService } from "@/lib/services/openai.service";
+import { QueryRewriterService } from "@/lib/services/query-rewriter.service";
 import { getSystemPrompt } from "@/lib/utils/language.utils";
 import { APIErrorHandler, Logger } from "@/lib/utils/error-handling.utils";
 import { generateSessionId, prepareContextString, prepareChatMessages, ChatMessage } from "@/lib/utils/session.utils";
+import { parseMetadataFilter, parseRetrievalOptions } from "@/lib/utils/retrieval-options.utils";
+import { RETRIEVAL_CONFIG } from "@/config/retrieval";
 
 const contextRetrievalService = new ContextRetrievalService();
 const ragEvaluationService = new RAGEvaluationService();
 const openaiService = new OpenAIService();
+const queryRewriterService = new QueryRewriterService(openaiService);
 
 export async function POST(req: NextRequest) {
   try {
@@ -19,14 +23,39 @@ export async function POST(req: NextRequest) {
       return APIErrorHandler.handleValidationError("Message is required");
     }
 
+    if (!Array.isArray(chatHistory) || !chatHistory.every((msg) => (msg?.role === "user" || msg?.role === "assistant") && typeof msg.content === "string")) {
+      return APIErrorHandler.handleValidationError("chatHistory must be an array of { role: \"user\" | \"assistant\", content: string } messages");
+    }
+
+    // Optional per-request retrieval settings (query expansion, reranker, ...)
+    const { options: retrievalOptions, error: retrievalOptionsError } = parseRetrievalOptions(body.retrievalOptions);
+    if (retrievalOptionsError) {
+      return APIErrorHandler.handleValidationError(retrievalOptionsError);
+    }
+
+    // Optional metadata filter, e.g. { chapter: "অপরিচিতা" } to scope questions to one story
+    const { filter, error: filterError } = parseMetadataFilter(body.filter);
+    if (filterError) {
+      return APIErrorHandler.handleValidationError(filterError);
+    }
+    if (filter) {
+      retrievalOptions.filter = filter;
+    }
+
     // Generate or use provided session ID
     const sessionId = providedSessionId || generateSessionId();
     Logger.info(`Processing chat request for session: ${sessionId}`);
 
+    // Turn follow-ups ("তার বয়স কত?") into standalone queries so retrieval sees the referent
+    const retrievalQuery = RETRIEVAL_CONFIG.queryCondensation ? await queryRewriterService.condenseQuery(message, chatHistory) : message;
+    if (retrievalQuery !== message) {
+      Logger.info(`Condensed follow-up query: "${message}" → "${retrievalQuery}"`);
+    }
+
     // Retrieve relevant context with evaluation metrics
-    const { contexts, searchScores, retrievalMetrics } = await contextRetrievalService.retrieveContext(message);
+    const { contexts, transliteratedQuery } = await contextRetrievalService.retrieveContext(retrievalQuery, retrievalOptions);
 
-    // Prepare system prompt based on language
+    // Prepare system prompt based on language (romanized Bengali gets a Bengali prompt)
     const systemPrompt = getSystemPrompt(message);
 
     // Prepare context string and messages
@@ -48,6 +77,9 @@ export async function POST(req: NextRequest) {
         try {
           let fullResponse = "";
 
+          // Report the query actually used for retrieval (for debugging condensation)
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ retrievalQuery, originalQuery: message, transliteratedQuery, sessionId })}\n\n`));
+
           for await (const chunk of stream) {
             const content = chunk.choices[0]?.delta?.content || "";
             if (content) {
@@ -88,6 +120,7 @@ export async function POST(req: NextRequest) {
                 sessionId,
                 userMessage,
                 assistantMessage,
+                retrievalQuery,
                 ragEvaluation,
               })}\n\n`
             )
@@ -1,56 +1,36 @@
-import { NextRequest, NextResponse } from "next/server";
-import { Pinecone } from "@pinecone-database/pinecone";
+import { NextResponse } from "next/server";
+import { createVectorStore } from "@/lib/services/vector-store.factory";
+import { createEmbeddingProvider } from "@/lib/services/embedding-provider.factory";
 
-const pinecone = new Pinecone({
-  apiKey: process.env.PINECONE_API_KEY!,
-});
+const vectorStore = createVectorStore();
 
-export async function POST(req: NextRequest) {
+export async function POST() {
   try {
-    const indexName = process.env.PINECONE_INDEX!;
+    const indexName = vectorStore.getIndexName();
+    const { name: embeddingModel, dimension } = createEmbeddingProvider();
 
     // Check if index already exists
-    const existingIndexes = await pinecone.listIndexes();
-    const indexExists = existingIndexes.indexes?.some((index) => index.name === indexName);
+    const indexExists = await vectorStore.checkIndexExists();
 
     if (indexExists) {
       return NextResponse.json({
         message: `Index "${indexName}" already exists.`,
         indexName,
+        provider: vectorStore.provider,
       });
     }
 
-    // Create the index
-    await pinecone.createIndex({
-      name: indexName,
-      dimension: 1536, // OpenAI text-embedding-ada-002 dimensions
-      metric: "cosine",
-      spec: {
-        serverless: {
-          cloud: "aws",
-          region: "us-east-1",
-        },
-      },
-    });
-
-    // Wait for the index to be ready
-    console.log(`Waiting for index "${indexName}" to be ready...`);
-    let isReady = false;
-    while (!isReady) {
-      try {
-        const indexInfo = await pinecone.describeIndex(indexName);
-        isReady = indexInfo.status?.ready === true;
-        if (!isReady) {
-          await new Promise((resolve) => setTimeout(resolve, 1000)); // Wait 1 second
-        }
-      } catch (error) {
-        await new Promise((resolve) => setTimeout(resolve, 1000)); // Wait 1 second and retry
-      }
-    }
+    // Create the index and wait for it to be ready
+    // Dimension follows the active embedding provider
+    console.log(`Creating ${vectorStore.provider} index "${indexName}" (${dimension} dimensions for ${embeddingModel})...`);
+    await vectorStore.createIndex(dimension);
 
     return NextResponse.json({
       message: `Index "${indexName}" created successfully and is ready.`,
       indexName,
+      provider: vectorStore.provider,
+      embeddingModel,
+      dimension,
     });
   } catch (error) {
     console.error("Create index error:", error);
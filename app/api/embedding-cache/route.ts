@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { getEmbeddingCache } from "@/lib/services/embedding-cache.service";
+import { APIErrorHandler, Logger } from "@/lib/utils/error-handling.utils";
+
+const embeddingCache = getEmbeddingCache();
+
+// GET endpoint for cache statistics (entries, size, hit/miss counters)
+export async function GET() {
+  try {
+    return NextResponse.json(embeddingCache.getStats());
+  } catch (error) {
+    return APIErrorHandler.handleError(error, "Get embedding cache stats");
+  }
+}
+
+export async function DELETE() {
+  try {
+    embeddingCache.clear();
+    Logger.success("Embedding cache cleared via admin action");
+    return NextResponse.json({
+      message: "Embedding cache cleared successfully",
+      stats: embeddingCache.getStats(),
+    });
+  } catch (error) {
+    return APIErrorHandler.handleError(error, "Clear embedding cache");
+  }
+}
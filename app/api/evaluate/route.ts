@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { RAGEvaluationService, RAGEvaluation } from "@/lib/services/rag-evaluation.service";
 import { APIErrorHandler, Logger } from "@/lib/utils/error-handling.utils";
+import { parseRetrievalOptions } from "@/lib/utils/retrieval-options.utils";
 
 const ragEvaluationService = new RAGEvaluationService();
 
@@ -8,6 +9,7 @@ interface EvaluationRequest {
   query: string;
   answer: string;
   contexts?: string[];
+  retrievalOptions?: unknown;
 }
 
 interface EvaluationResponse extends RAGEvaluation {
@@ -27,10 +29,15 @@ export async function POST(req: NextRequest) {
       return APIErrorHandler.handleValidationError("Both query and answer are required");
     }
 
+    const { options: retrievalOptions, error: retrievalOptionsError } = parseRetrievalOptions(body.retrievalOptions);
+    if (retrievalOptionsError) {
+      return APIErrorHandler.handleValidationError(retrievalOptionsError);
+    }
+
     Logger.info(`🔬 Evaluating RAG performance for query: "${query.substring(0, 100)}..."`);
 
     // Perform complete RAG evaluation
-    const ragEvaluation = await ragEvaluationService.evaluateRAG(query, answer, contexts);
+    const ragEvaluation = await ragEvaluationService.evaluateRAG(query, answer, contexts, body.retrievalOptions !== undefined ? retrievalOptions : undefined);
 
     const response: EvaluationResponse = {
       ...ragEvaluation,
@@ -64,6 +71,7 @@ export async function GET() {
           query: "The user's question (required)",
           answer: "The system's response (required)",
           contexts: "Array of context strings (optional - if not provided, will be retrieved)",
+          retrievalOptions: 'Retrieval settings used when contexts are not provided (optional), e.g. { expansion: "multi-query" | "hyde" | "multi-query+hyde", reranker: "llm" | "lexical", topK }',
         },
         example: {
           query: "অনুপমের ভাষায় সুপুরুষ কাকে বলা হয়েছে?",
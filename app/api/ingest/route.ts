@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { PineconeService, PineconeVector } from "@/lib/services/pinecone.service";
+import { createLexicalIndex, createVectorStore } from "@/lib/services/vector-store.factory";
+import { VectorRecord } from "@/lib/types/vector-store.types";
+import { chunkVectorId } from "@/lib/utils/vector-query.utils";
 import { OpenAIService } from "@/lib/services/openai.service";
 import { APIErrorHandler, Logger } from "@/lib/utils/error-handling.utils";
 import { PDFProcessorService } from "@/lib/services/pdf-processor.service";
 import { PageRange, DocumentChunk } from "@/lib/types/pdf-processing.types";
 import { ACTIVE_PAGE_CONFIG } from "@/config/pdf-pages";
 
-const pineconeService = new PineconeService();
+const vectorStore = createVectorStore();
+const lexicalIndex = createLexicalIndex(vectorStore.getIndexName());
 const openaiService = new OpenAIService();
 
 export async function POST(req: NextRequest) {
@@ -14,15 +17,20 @@ export async function POST(req: NextRequest) {
 
   try {
     // Environment validation
-    const indexName = process.env.PINECONE_INDEX;
-    Logger.info("Environment check - PINECONE_INDEX:", indexName ? "✓ Set" : "✗ Missing");
+    Logger.info("Environment check - VECTOR_STORE:", vectorStore.provider);
     Logger.info("Environment check - OPENAI_API_KEY:", process.env.OPENAI_API_KEY ? "✓ Set" : "✗ Missing");
-    Logger.info("Environment check - PINECONE_API_KEY:", process.env.PINECONE_API_KEY ? "✓ Set" : "✗ Missing");
 
-    if (!indexName) {
-      return APIErrorHandler.handleMissingEnvironmentVariable("PINECONE_INDEX");
+    if (vectorStore.provider === "pinecone") {
+      Logger.info("Environment check - PINECONE_INDEX:", process.env.PINECONE_INDEX ? "✓ Set" : "✗ Missing");
+      Logger.info("Environment check - PINECONE_API_KEY:", process.env.PINECONE_API_KEY ? "✓ Set" : "✗ Missing");
+
+      if (!process.env.PINECONE_INDEX) {
+        return APIErrorHandler.handleMissingEnvironmentVariable("PINECONE_INDEX");
+      }
     }
 
+    const indexName = vectorStore.getIndexName();
+
     // Parse request body for optional page ranges, or use config file
     let pageRanges: PageRange[] | undefined;
     try {
@@ -38,8 +46,8 @@ export async function POST(req: NextRequest) {
     Logger.info("Page ranges configuration:", pageRanges || "All pages");
 
     // Check if index exists
-    Logger.info("Checking if Pinecone index exists...");
-    const indexExists = await pineconeService.checkIndexExists();
+    Logger.info(`Checking if ${vectorStore.provider} index exists...`);
+    const indexExists = await vectorStore.checkIndexExists();
     Logger.info("Index check result:", indexExists ? "✓ Exists" : "✗ Not found");
 
     if (!indexExists) {
@@ -55,10 +63,12 @@ export async function POST(req: NextRequest) {
     Logger.info("Processing HSC26 PDF...");
     const pdfProcessor = new PDFProcessorService();
     const chunks = await pdfProcessor.processHSC26PDF({ pageRanges });
+    const report = pdfProcessor.getLastReport();
     Logger.success(`PDF processing complete: ${chunks.length} chunks created`);
 
-    // Process chunks in batches to avoid rate limits
-    const batchSize = 10;
+    // Process chunks in batches; the embedding pipeline packs each batch into
+    // as few API calls as the token budget allows and handles rate limits
+    const batchSize = 100; // Pinecone recommends upserts of at most 100 vectors
     let processedCount = 0;
     Logger.info(`Starting batch processing: ${chunks.length} chunks, batch size: ${batchSize}`);
 
@@ -71,57 +81,66 @@ export async function POST(req: NextRequest) {
 
       // Create embeddings for the batch
       Logger.info("Creating embeddings...");
-      const embeddings = await Promise.all(
-        batch.map(async (chunk: DocumentChunk, batchIdx: number) => {
-          Logger.debug(`Creating embedding for chunk ${chunk.metadata.chunk_index} (${chunk.content.length} chars)`);
-          const embedding = await openaiService.createEmbedding(chunk.content);
-          Logger.debug(`Embedding created for chunk ${chunk.metadata.chunk_index}`);
-          return embedding;
-        })
-      );
+      const embeddings = await openaiService.createEmbeddings(batch.map((chunk: DocumentChunk) => chunk.content));
       Logger.success(`All embeddings created for batch (${embeddings.length} embeddings)`);
 
       // Prepare vectors for upsert
-      Logger.info("Preparing vectors for Pinecone upsert...");
-      const vectors: PineconeVector[] = batch.map((chunk: DocumentChunk, idx: number) => ({
-        id: `hsc26_chunk_${chunk.metadata.chunk_index}`,
+      Logger.info("Preparing vectors for upsert...");
+      const vectors: VectorRecord[] = batch.map((chunk: DocumentChunk, idx: number) => ({
+        id: chunkVectorId(chunk.metadata.chunk_index),
         values: embeddings[idx],
         metadata: {
           content: chunk.content,
           source: chunk.metadata.source,
           chunk_index: chunk.metadata.chunk_index,
           char_count: chunk.metadata.char_count,
+          // Filterable fields; Pinecone rejects null metadata, so absent values are omitted
+          ...(chunk.metadata.page_start !== undefined && { page_start: chunk.metadata.page_start }),
+          ...(chunk.metadata.page_end !== undefined && { page_end: chunk.metadata.page_end }),
+          ...(chunk.metadata.chapter && { chapter: chunk.metadata.chapter }),
+          ...(chunk.metadata.section_type && { section_type: chunk.metadata.section_type }),
+          ...(chunk.metadata.section_title && { section_title: chunk.metadata.section_title }),
+          ...(chunk.metadata.stanza_start !== undefined && { stanza_start: chunk.metadata.stanza_start }),
+          ...(chunk.metadata.stanza_end !== undefined && { stanza_end: chunk.metadata.stanza_end }),
+          ...(chunk.metadata.line_start !== undefined && { line_start: chunk.metadata.line_start }),
+          ...(chunk.metadata.line_end !== undefined && { line_end: chunk.metadata.line_end }),
+          ...(chunk.metadata.extraction_method && { extraction_method: chunk.metadata.extraction_method }),
+          ...(chunk.metadata.ocr_confidence !== undefined && { ocr_confidence: chunk.metadata.ocr_confidence }),
+          ...(chunk.metadata.ocr_min_confidence !== undefined && { ocr_min_confidence: chunk.metadata.ocr_min_confidence }),
+          ...(chunk.metadata.low_confidence && { low_confidence: true }),
+          ...(chunk.metadata.doc_type && { doc_type: chunk.metadata.doc_type }),
+          ...(chunk.metadata.mcq_options && { mcq_options: chunk.metadata.mcq_options }),
+          ...(chunk.metadata.mcq_answer && { mcq_answer: chunk.metadata.mcq_answer }),
         },
       }));
       Logger.success(`${vectors.length} vectors prepared`);
 
-      // Upsert to Pinecone
-      Logger.info("Upserting vectors to Pinecone...");
-      await pineconeService.upsertVectors(vectors);
+      // Upsert to the vector store
+      Logger.info(`Upserting vectors to ${vectorStore.provider} vector store...`);
+      await vectorStore.upsertVectors(vectors);
       Logger.success("Batch upserted successfully");
 
+      // Keep the BM25 lexical index in sync with the vector index
+      lexicalIndex.upsertDocuments(vectors.map((vector) => ({ id: vector.id, content: vector.metadata.content, metadata: vector.metadata })));
+
       processedCount += batch.length;
       Logger.progress(processedCount, chunks.length, "chunks processed");
-
-      // Add a small delay to respect rate limits
-      if (i + batchSize < chunks.length) {
-        Logger.debug("Waiting 1 second to respect rate limits...");
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      }
     }
 
     // Verify the ingestion
     Logger.info("Verifying ingestion by checking index stats...");
-    const stats = await pineconeService.getIndexStats();
+    const stats = await vectorStore.getIndexStats();
     Logger.success("Index stats retrieved:", stats);
 
     Logger.success("🎉 INGESTION COMPLETED SUCCESSFULLY!");
     Logger.info(`Total chunks processed: ${chunks.length}`);
     Logger.info(`Total vectors in index: ${stats.totalRecordCount}`);
+    Logger.info(`Lexical index: ${lexicalIndex.getStats().documentCount} documents`);
 
     return NextResponse.json({
       message: "Document ingestion completed successfully",
       chunksProcessed: chunks.length,
+      report,
       indexStats: {
         totalVectors: stats.totalRecordCount,
         dimension: stats.dimension,
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOCRCache } from "@/lib/services/ocr-cache.service";
+import { APIErrorHandler, Logger } from "@/lib/utils/error-handling.utils";
+
+const ocrCache = getOCRCache();
+
+// GET endpoint for cache statistics and the cached pages of each PDF
+export async function GET() {
+  try {
+    return NextResponse.json(ocrCache.getStats());
+  } catch (error) {
+    return APIErrorHandler.handleError(error, "Get OCR cache stats");
+  }
+}
+
+// DELETE clears the whole cache, or with ?pdfHash=...[&pages=3,4] only that PDF's pages
+export async function DELETE(req: NextRequest) {
+  try {
+    const pdfHash = req.nextUrl.searchParams.get("pdfHash");
+    const pagesParam = req.nextUrl.searchParams.get("pages");
+
+    if (!pdfHash) {
+      ocrCache.clear();
+      Logger.success("OCR cache cleared via admin action");
+      return NextResponse.json({
+        message: "OCR cache cleared successfully",
+        stats: ocrCache.getStats(),
+      });
+    }
+
+    if (!/^[a-f0-9]{64}$/.test(pdfHash)) {
+      return APIErrorHandler.handleValidationError("pdfHash must be a SHA-256 hex digest");
+    }
+
+    const pages = pagesParam ? pagesParam.split(",").map((page) => parseInt(page.trim())) : undefined;
+    if (pages && pages.some((page) => !Number.isInteger(page) || page < 1)) {
+      return APIErrorHandler.handleValidationError("pages must be a comma-separated list of page numbers");
+    }
+
+    const removed = ocrCache.invalidate(pdfHash, pages);
+    Logger.success(`Invalidated ${removed} cached OCR pages via admin action`);
+    return NextResponse.json({
+      message: `Invalidated ${removed} cached OCR pages`,
+      removed,
+      stats: ocrCache.getStats(),
+    });
+  } catch (error) {
+    return APIErrorHandler.handleError(error, "Invalidate OCR cache");
+  }
+}
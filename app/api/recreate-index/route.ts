@@ -1,93 +1,41 @@
-import { NextRequest, NextResponse } from "next/server";
-import { Pinecone } from "@pinecone-database/pinecone";
+import { NextResponse } from "next/server";
+import { createLexicalIndex, createVectorStore } from "@/lib/services/vector-store.factory";
+import { createEmbeddingProvider } from "@/lib/services/embedding-provider.factory";
 
-const pinecone = new Pinecone({
-  apiKey: process.env.PINECONE_API_KEY!,
-});
+const vectorStore = createVectorStore();
+const lexicalIndex = createLexicalIndex(vectorStore.getIndexName());
 
-export async function POST(req: NextRequest) {
+export async function POST() {
   try {
-    const indexName = process.env.PINECONE_INDEX!;
-    console.log(`🔄 Recreating index: ${indexName}`);
+    const indexName = vectorStore.getIndexName();
+    const { name: embeddingModel, dimension } = createEmbeddingProvider();
+    console.log(`🔄 Recreating ${vectorStore.provider} index: ${indexName}`);
 
     // Check if index exists
-    const existingIndexes = await pinecone.listIndexes();
-    const indexExists = existingIndexes.indexes?.some((index) => index.name === indexName);
+    const indexExists = await vectorStore.checkIndexExists();
 
     if (indexExists) {
       console.log(`🗑️ Deleting existing index: ${indexName}`);
-      await pinecone.deleteIndex(indexName);
-
-      // Wait for deletion to complete
-      console.log("⏳ Waiting for index deletion to complete...");
-      let deleted = false;
-      let attempts = 0;
-      while (!deleted && attempts < 30) {
-        // Max 30 attempts (5 minutes)
-        try {
-          const indexes = await pinecone.listIndexes();
-          deleted = !indexes.indexes?.some((index) => index.name === indexName);
-          if (!deleted) {
-            await new Promise((resolve) => setTimeout(resolve, 10000)); // Wait 10 seconds
-            attempts++;
-          }
-        } catch (error) {
-          // If we can't list indexes, assume deletion is in progress
-          await new Promise((resolve) => setTimeout(resolve, 10000));
-          attempts++;
-        }
-      }
-
-      if (!deleted) {
-        throw new Error("Index deletion timed out");
-      }
-
+      await vectorStore.deleteIndex();
       console.log("✅ Index deleted successfully");
     }
 
-    // Create the new index with correct dimensions
-    console.log(`🏗️ Creating new index with 1536 dimensions...`);
-    await pinecone.createIndex({
-      name: indexName,
-      dimension: 1536, // OpenAI text-embedding-ada-002 dimensions
-      metric: "cosine",
-      spec: {
-        serverless: {
-          cloud: "aws",
-          region: "us-east-1",
-        },
-      },
-    });
-
-    // Wait for the index to be ready
-    console.log(`⏳ Waiting for index "${indexName}" to be ready...`);
-    let isReady = false;
-    let attempts = 0;
-    while (!isReady && attempts < 60) {
-      // Max 60 attempts (10 minutes)
-      try {
-        const indexInfo = await pinecone.describeIndex(indexName);
-        isReady = indexInfo.status?.ready === true;
-        if (!isReady) {
-          await new Promise((resolve) => setTimeout(resolve, 10000)); // Wait 10 seconds
-          attempts++;
-        }
-      } catch (error) {
-        await new Promise((resolve) => setTimeout(resolve, 10000)); // Wait 10 seconds and retry
-        attempts++;
-      }
-    }
+    // The lexical index mirrors the vector index, so it is rebuilt on the next ingestion
+    lexicalIndex.clear();
 
-    if (!isReady) {
-      throw new Error("Index creation timed out");
-    }
+    // Create the new index with correct dimensions
+    // Dimension follows the active embedding provider
+    console.log(`🏗️ Creating new index with ${dimension} dimensions for ${embeddingModel}...`);
+    await vectorStore.createIndex(dimension);
 
     console.log("🎉 Index recreated successfully with correct dimensions!");
 
     return NextResponse.json({
-      message: `Index "${indexName}" recreated successfully with 1536 dimensions and is ready.`,
+      message: `Index "${indexName}" recreated successfully with ${dimension} dimensions and is ready.`,
       indexName,
-      dimension: 1536,
+      provider: vectorStore.provider,
+      embeddingModel,
+      dimension,
     });
   } catch (error) {
     console.error("❌ Recreate index error:", error);
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ContextRetrievalService } from "@/lib/services/context-retrieval.service";
+import { APIErrorHandler, Logger } from "@/lib/utils/error-handling.utils";
+import { parseMetadataFilter, parseRetrievalOptions } from "@/lib/utils/retrieval-options.utils";
+import { RetrievedChunk } from "@/lib/types/retrieval.types";
+
+const contextRetrievalService = new ContextRetrievalService();
+
+interface SearchRequest {
+  query: string;
+  filter?: unknown;
+  retrievalOptions?: unknown;
+}
+
+/**
+ * Pipeline stages that shaped a chunk: where it was found, then what changed it
+ */
+function describeStages(chunk: RetrievedChunk): string[] {
+  const stages: string[] = chunk.sources.map((source) => (source === "keyword" ? "keyword-fallback" : source));
+  if (chunk.confidenceWeight !== undefined) stages.push("low-confidence");
+  if (chunk.mmrScore !== undefined) stages.push("mmr");
+  if (chunk.rerankScore !== undefined) stages.push("rerank");
+  if (chunk.expandedChunkIndices) stages.push("neighbor-expansion");
+  return stages;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body: SearchRequest = await req.json();
+    const { query } = body;
+
+    if (!query || typeof query !== "string") {
+      return APIErrorHandler.handleValidationError("Query is required");
+    }
+
+    const { options: retrievalOptions, error: retrievalOptionsError } = parseRetrievalOptions(body.retrievalOptions);
+    if (retrievalOptionsError) {
+      return APIErrorHandler.handleValidationError(retrievalOptionsError);
+    }
+
+    const { filter, error: filterError } = parseMetadataFilter(body.filter);
+    if (filterError) {
+      return APIErrorHandler.handleValidationError(filterError);
+    }
+    if (filter) {
+      retrievalOptions.filter = filter;
+    }
+    // A debugging endpoint must show failures, not an empty result list
+    retrievalOptions.throwOnError = true;
+
+    Logger.info(`🔎 Search request: "${query.substring(0, 100)}"`);
+    const result = await contextRetrievalService.retrieveContext(query, retrievalOptions);
+
+    return NextResponse.json({
+      query,
+      transliteratedQuery: result.transliteratedQuery,
+      queryVariants: result.queryVariants,
+      filter: retrievalOptions.filter || null,
+      results: result.chunks.map((chunk, index) => ({
+        rank: index + 1,
+        id: chunk.id,
+        chunkIndex: chunk.metadata?.chunk_index,
+        pageStart: chunk.metadata?.page_start,
+        pageEnd: chunk.metadata?.page_end,
+        chapter: chunk.metadata?.chapter,
+        sectionType: chunk.metadata?.section_type,
+        sectionTitle: chunk.metadata?.section_title,
+        stanzaStart: chunk.metadata?.stanza_start,
+        stanzaEnd: chunk.metadata?.stanza_end,
+        lineStart: chunk.metadata?.line_start,
+        lineEnd: chunk.metadata?.line_end,
+        extractionMethod: chunk.metadata?.extraction_method,
+        ocrConfidence: chunk.metadata?.ocr_confidence,
+        ocrMinConfidence: chunk.metadata?.ocr_min_confidence,
+        lowConfidence: chunk.metadata?.low_confidence || false,
+        docType: chunk.metadata?.doc_type || "text",
+        mcqAnswer: chunk.metadata?.mcq_answer,
+        stages: describeStages(chunk),
+        scores: {
+          final: chunk.score,
+          semantic: chunk.semanticScore,
+          lexical: chunk.lexicalScore,
+          mmr: chunk.mmrScore,
+          beforeRerank: chunk.originalScore,
+          rerank: chunk.rerankScore,
+        },
+        matchedQueries: chunk.matchedQueries,
+        expandedChunkIndices: chunk.expandedChunkIndices,
+        content: chunk.content,
+      })),
+      retrievalMetrics: result.retrievalMetrics,
+      timings: result.timings,
+    });
+  } catch (error) {
+    return APIErrorHandler.handleError(error, "Search API");
+  }
+}
+
+// GET endpoint for documentation
+export async function GET() {
+  return NextResponse.json({
+    description: "Search API - Retrieve ranked book chunks without generating an answer, for inspecting and tuning retrieval",
+    endpoints: {
+      "POST /api/search": {
+        description: "Run the chat retrieval pipeline for a query and return the ranked chunks with per-stage scores and timings",
+        parameters: {
+          query: "The search query (required)",
+          filter: "Metadata filter (optional): { source, page_start, page_end, chapter, section_type, section_title, doc_type }; page bounds select chunks overlapping the range",
+          retrievalOptions: "Retrieval settings (optional), same as on /api/chat",
+        },
+        example: {
+          query: "অনুপমের মামা কেমন মানুষ?",
+          filter: { chapter: "অপরিচিতা" },
+        },
+      },
+    },
+    response: {
+      results: "Ranked chunks with id, chunkIndex, pageStart/pageEnd, chapter, stanza/line range for poems, stages and scores",
+      stages: "semantic | lexical | keyword-fallback (where the chunk was found), then mmr, rerank, neighbor-expansion",
+      timings: "Milliseconds per stage: translation, expansion, search, diversity, rerank, neighborExpansion, total",
+    },
+  });
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { HardDrive, Trash2, RefreshCw } from "lucide-react";
+import { StatusMessage } from "./StatusMessage";
+import { formatBytes } from "@/lib/utils";
+import type { EmbeddingCacheStats } from "./types";
+
+export function EmbeddingCacheManagement() {
+  const [stats, setStats] = useState<EmbeddingCacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    loadStats();
+  }, []);
+
+  const loadStats = async () => {
+    try {
+      const response = await fetch("/api/embedding-cache");
+      const data = await response.json();
+
+      if (response.ok) {
+        setStats(data);
+      } else {
+        throw new Error(data.error || "Failed to load cache stats");
+      }
+    } catch (error) {
+      console.error("Error loading embedding cache stats:", error);
+      setMessage({ type: "error", text: `Failed to load cache stats: ${(error as Error).message}` });
+    }
+  };
+
+  const clearCache = async () => {
+    setIsClearing(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/embedding-cache", { method: "DELETE" });
+      const data = await response.json();
+
+      if (response.ok) {
+        setStats(data.stats);
+        setMessage({ type: "success", text: "Embedding cache cleared successfully!" });
+      } else {
+        throw new Error(data.error || "Failed to clear cache");
+      }
+    } catch (error) {
+      console.error("Error clearing embedding cache:", error);
+      setMessage({ type: "error", text: `Failed to clear cache: ${(error as Error).message}` });
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg border border-gray-200 dark:border-slate-700 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <HardDrive className="w-5 h-5 text-amber-600" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Embedding Cache</h2>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button onClick={loadStats} size="sm" variant="ghost">
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+          <Button onClick={clearCache} disabled={isClearing || !stats || stats.entries === 0} size="sm" variant="outline" className="flex items-center space-x-2 text-red-600 border-red-600 hover:bg-red-50">
+            <Trash2 className="w-4 h-4" />
+            <span>{isClearing ? "Clearing..." : "Clear Cache"}</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {stats && (
+          <div className="grid grid-cols-2 gap-4 text-sm p-4 rounded-lg bg-gray-50 dark:bg-slate-700">
+            <div>
+              <span className="text-gray-600 dark:text-gray-400">Status:</span>
+              <span className="ml-2 font-mono">{stats.enabled ? "Enabled" : "Disabled"}</span>
+            </div>
+            <div>
+              <span className="text-gray-600 dark:text-gray-400">Entries:</span>
+              <span className="ml-2 font-mono">{stats.entries}</span>
+            </div>
+            <div>
+              <span className="text-gray-600 dark:text-gray-400">Size on disk:</span>
+              <span className="ml-2 font-mono">{formatBytes(stats.sizeBytes)}</span>
+            </div>
+            <div>
+              <span className="text-gray-600 dark:text-gray-400">Hits / Misses:</span>
+              <span className="ml-2 font-mono">
+                {stats.hits} / {stats.misses} ({(stats.hitRate * 100).toFixed(0)}%)
+              </span>
+            </div>
+          </div>
+        )}
+
+        {stats && stats.providers.length > 0 && (
+          <div className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+            {stats.providers.map((provider) => (
+              <div key={provider.provider} className="flex justify-between">
+                <span className="font-mono">{provider.provider}</span>
+                <span>
+                  {provider.entries} entries · {formatBytes(provider.sizeBytes)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {message && <StatusMessage type={message.type} message={message.text} />}
+      </div>
+    </div>
+  );
+}
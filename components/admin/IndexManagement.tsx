@@ -13,6 +13,7 @@ interface IndexManagementProps {
 export function IndexManagement({ onStatusChange }: IndexManagementProps) {
   const [indexStatus, setIndexStatus] = useState<IndexStatus>("unknown");
   const [ingestionStatus, setIngestionStatus] = useState<IngestionStatus>({ isRunning: false });
+  const [provider, setProvider] = useState<string>("pinecone");
 
   useEffect(() => {
     checkIndexStatus();
@@ -26,6 +27,9 @@ export function IndexManagement({ onStatusChange }: IndexManagementProps) {
     try {
       const response = await fetch("/api/create-index", { method: "POST" });
       const data = await response.json();
+      if (data.provider) {
+        setProvider(data.provider);
+      }
 
       if (data.message?.includes("already exists")) {
         setIndexStatus("exists");
@@ -130,7 +134,7 @@ export function IndexManagement({ onStatusChange }: IndexManagementProps) {
           <div className="flex items-center space-x-3">
             <statusDisplay.icon className={`w-5 h-5 ${statusDisplay.color}`} />
             <div>
-              <p className="font-medium text-gray-900 dark:text-gray-100">Pinecone Index</p>
+              <p className="font-medium text-gray-900 dark:text-gray-100">{provider === "local" ? "Local Index" : "Pinecone Index"}</p>
               <p className="text-sm text-gray-500 dark:text-gray-400">{statusDisplay.text}</p>
             </div>
           </div>
@@ -18,7 +18,7 @@ export function IngestionControl({ pageRanges, indexStatus }: IngestionControlPr
     if (indexStatus !== "exists") {
       setIngestionStatus({
         isRunning: false,
-        error: "Please create the Pinecone index first",
+        error: "Please create the vector index first",
       });
       return;
     }
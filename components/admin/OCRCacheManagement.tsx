@@ -0,0 +1,150 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScanText, Trash2, RefreshCw } from "lucide-react";
+import { StatusMessage } from "./StatusMessage";
+import { formatBytes } from "@/lib/utils";
+import type { OCRCacheStats } from "./types";
+
+/** "1-20, 25, 30-31" */
+function formatPages(pages: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const start = pages[i];
+    while (i + 1 < pages.length && pages[i + 1] === pages[i] + 1) i++;
+    ranges.push(start === pages[i] ? `${start}` : `${start}-${pages[i]}`);
+  }
+  return ranges.join(", ");
+}
+
+export function OCRCacheManagement() {
+  const [stats, setStats] = useState<OCRCacheStats | null>(null);
+  const [pageInputs, setPageInputs] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    loadStats();
+  }, []);
+
+  const loadStats = async () => {
+    try {
+      const response = await fetch("/api/ocr-cache");
+      const data = await response.json();
+
+      if (response.ok) {
+        setStats(data);
+      } else {
+        throw new Error(data.error || "Failed to load cache stats");
+      }
+    } catch (error) {
+      console.error("Error loading OCR cache stats:", error);
+      setMessage({ type: "error", text: `Failed to load cache stats: ${(error as Error).message}` });
+    }
+  };
+
+  // Without a PDF hash the whole cache is cleared; without pages the whole PDF is invalidated
+  const invalidate = async (pdfHash?: string, pages?: string) => {
+    setBusy(pdfHash || "all");
+    setMessage(null);
+
+    try {
+      const params = new URLSearchParams();
+      if (pdfHash) params.set("pdfHash", pdfHash);
+      if (pages && pages.trim()) params.set("pages", pages.replace(/\s+/g, ""));
+
+      const response = await fetch(`/api/ocr-cache${params.toString() ? `?${params}` : ""}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (response.ok) {
+        setStats(data.stats);
+        setMessage({ type: "success", text: pdfHash ? `${data.message}.` : "OCR cache cleared successfully!" });
+        if (pdfHash) setPageInputs((inputs) => ({ ...inputs, [pdfHash]: "" }));
+      } else {
+        throw new Error(data.error || "Failed to invalidate cache");
+      }
+    } catch (error) {
+      console.error("Error invalidating OCR cache:", error);
+      setMessage({ type: "error", text: `Failed to invalidate cache: ${(error as Error).message}` });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg border border-gray-200 dark:border-slate-700 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <ScanText className="w-5 h-5 text-teal-600" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">OCR Cache</h2>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button onClick={loadStats} size="sm" variant="ghost">
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+          <Button onClick={() => invalidate()} disabled={busy !== null || !stats || stats.entries === 0} size="sm" variant="outline" className="flex items-center space-x-2 text-red-600 border-red-600 hover:bg-red-50">
+            <Trash2 className="w-4 h-4" />
+            <span>{busy === "all" ? "Clearing..." : "Clear Cache"}</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {stats && (
+          <div className="grid grid-cols-2 gap-4 text-sm p-4 rounded-lg bg-gray-50 dark:bg-slate-700">
+            <div>
+              <span className="text-gray-600 dark:text-gray-400">Status:</span>
+              <span className="ml-2 font-mono">{stats.enabled ? "Enabled" : "Disabled"}</span>
+            </div>
+            <div>
+              <span className="text-gray-600 dark:text-gray-400">Cached pages:</span>
+              <span className="ml-2 font-mono">{stats.entries}</span>
+            </div>
+            <div>
+              <span className="text-gray-600 dark:text-gray-400">Size on disk:</span>
+              <span className="ml-2 font-mono">{formatBytes(stats.sizeBytes)}</span>
+            </div>
+            <div>
+              <span className="text-gray-600 dark:text-gray-400">Hits / Misses:</span>
+              <span className="ml-2 font-mono">
+                {stats.hits} / {stats.misses} ({(stats.hitRate * 100).toFixed(0)}%)
+              </span>
+            </div>
+          </div>
+        )}
+
+        {stats &&
+          stats.documents.map((document) => (
+            <div key={document.pdfHash} className="space-y-2 text-xs text-gray-600 dark:text-gray-400 border-t border-gray-200 dark:border-slate-700 pt-3">
+              <div className="flex justify-between">
+                <span>
+                  <span className="font-medium text-gray-900 dark:text-gray-100">{document.source || "Unknown PDF"}</span>
+                  <span className="ml-2 font-mono">{document.pdfHash.slice(0, 12)}</span>
+                </span>
+                <span>
+                  {document.entries} entries · {document.variants.length} settings · {formatBytes(document.sizeBytes)}
+                </span>
+              </div>
+              <div>Pages: {formatPages(document.pages)}</div>
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="text"
+                  value={pageInputs[document.pdfHash] || ""}
+                  onChange={(e) => setPageInputs((inputs) => ({ ...inputs, [document.pdfHash]: e.target.value }))}
+                  placeholder="Pages to invalidate, e.g. 3,4 (empty = all)"
+                  className="h-8 text-xs"
+                />
+                <Button onClick={() => invalidate(document.pdfHash, pageInputs[document.pdfHash])} disabled={busy !== null} size="sm" variant="outline" className="text-red-600 border-red-600 hover:bg-red-50">
+                  {busy === document.pdfHash ? "Invalidating..." : "Invalidate"}
+                </Button>
+              </div>
+            </div>
+          ))}
+
+        {message && <StatusMessage type={message.type} message={message.text} />}
+      </div>
+    </div>
+  );
+}
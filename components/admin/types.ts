@@ -17,3 +17,30 @@ export interface IngestionStatus {
 }
 
 export type IndexStatus = "unknown" | "exists" | "missing" | "creating";
+
+export interface EmbeddingCacheStats {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  entries: number;
+  sizeBytes: number;
+  providers: Array<{ provider: string; entries: number; sizeBytes: number }>;
+}
+
+export interface OCRCacheStats {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  entries: number;
+  sizeBytes: number;
+  documents: Array<{
+    pdfHash: string;
+    source: string;
+    pages: number[];
+    variants: Array<{ languages: string; preprocessing: Record<string, unknown> }>;
+    entries: number;
+    sizeBytes: number;
+  }>;
+}
@@ -0,0 +1,18 @@
+import type { ChunkSizeUnit } from "@/lib/types/pdf-processing.types";
+
+const sizeUnit = (process.env.CHUNK_SIZE_UNIT || "characters") as ChunkSizeUnit;
+
+/**
+ * Configuration for chunking the textbook at ingestion
+ *
+ * Environment variables (all optional):
+ * - CHUNK_SIZE_UNIT: "characters" (default) or "tokens" (estimated, see estimateTokenCount)
+ * - CHUNK_SIZE / CHUNK_OVERLAP: size and overlap in that unit
+ *   (defaults 1000 / 200 characters or 500 / 100 tokens)
+ */
+export const CHUNKING_CONFIG = {
+  sizeUnit,
+  chunkSize: parseInt(process.env.CHUNK_SIZE || (sizeUnit === "tokens" ? "500" : "1000")),
+  overlap: parseInt(process.env.CHUNK_OVERLAP || (sizeUnit === "tokens" ? "100" : "200")),
+  minChunkSize: sizeUnit === "tokens" ? 20 : 50,
+};
@@ -0,0 +1,59 @@
+import { join } from "path";
+import type { EmbeddingProviderType } from "@/lib/types/embedding.types";
+
+/**
+ * Configuration for the embedding provider
+ *
+ * Environment variables:
+ * - EMBEDDING_PROVIDER: "openai" (default), "openai-compatible" or "hashing" (offline, deterministic)
+ * - EMBEDDING_MODEL: model name (default: text-embedding-ada-002 for OpenAI)
+ * - EMBEDDING_DIMENSION: vector size; required for openai-compatible, optional for hashing (default 512).
+ *   For OpenAI text-embedding-3 models it shortens the vectors via the API's `dimensions` parameter
+ * - EMBEDDING_BASE_URL / EMBEDDING_API_KEY: endpoint and key for self-hosted OpenAI-compatible servers
+ */
+export const EMBEDDING_CONFIG = {
+  provider: (process.env.EMBEDDING_PROVIDER || "openai") as EmbeddingProviderType,
+  model: process.env.EMBEDDING_MODEL,
+  dimension: process.env.EMBEDDING_DIMENSION ? Number(process.env.EMBEDDING_DIMENSION) : undefined,
+  baseURL: process.env.EMBEDDING_BASE_URL,
+  apiKey: process.env.EMBEDDING_API_KEY,
+};
+
+/**
+ * Known output dimensions for OpenAI embedding models
+ */
+export const OPENAI_EMBEDDING_DIMENSIONS: Record<string, number> = {
+  "text-embedding-ada-002": 1536,
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+};
+
+/**
+ * Batching, retry and concurrency limits for remote embedding APIs
+ *
+ * Environment variables (all optional):
+ * - EMBEDDING_MAX_BATCH_TOKENS: estimated tokens per API call (default 100000, OpenAI allows 300000)
+ * - EMBEDDING_MAX_BATCH_ITEMS: inputs per API call (default 256, OpenAI allows 2048)
+ * - EMBEDDING_CONCURRENCY: API calls in flight (default 4)
+ * - EMBEDDING_MAX_RETRIES: retries on 429/5xx (default 6)
+ */
+export const EMBEDDING_BATCH_CONFIG = {
+  maxBatchTokens: parseInt(process.env.EMBEDDING_MAX_BATCH_TOKENS || "100000"),
+  maxBatchItems: parseInt(process.env.EMBEDDING_MAX_BATCH_ITEMS || "256"),
+  concurrency: parseInt(process.env.EMBEDDING_CONCURRENCY || "4"),
+  maxRetries: parseInt(process.env.EMBEDDING_MAX_RETRIES || "6"),
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+};
+
+/**
+ * Persistent embedding cache
+ *
+ * Environment variables (all optional):
+ * - EMBEDDING_CACHE: set to "off" to disable caching
+ * - EMBEDDING_CACHE_DIR: cache directory (default: data/embedding-cache)
+ */
+export const EMBEDDING_CACHE_CONFIG = {
+  enabled: process.env.EMBEDDING_CACHE !== "off",
+  directory: process.env.EMBEDDING_CACHE_DIR || join(process.cwd(), "data", "embedding-cache"),
+};
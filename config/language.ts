@@ -0,0 +1,14 @@
+import type { RomanizedReplyScript } from "@/lib/types/language.types";
+
+/**
+ * Configuration for language handling
+ *
+ * Environment variables (all optional):
+ * - ROMANIZED_BENGALI: set to "off" to treat Latin-script questions as English
+ * - ROMANIZED_REPLY_SCRIPT: answer script for romanized Bengali questions,
+ *   "bengali" (default, matches the book) or "latin" (reply in romanized Bengali)
+ */
+export const LANGUAGE_CONFIG = {
+  romanizedBengali: process.env.ROMANIZED_BENGALI !== "off",
+  romanizedReplyScript: (process.env.ROMANIZED_REPLY_SCRIPT || "bengali") as RomanizedReplyScript,
+};
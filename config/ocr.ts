@@ -0,0 +1,55 @@
+import { cpus } from "os";
+import { join } from "path";
+import type { BinarizationMode, ImagePreprocessingOptions } from "@/lib/types/pdf-processing.types";
+
+/**
+ * Configuration for OCR throughput and quality reporting
+ *
+ * Environment variables (all optional):
+ * - OCR_WORKERS: Tesseract workers recognizing pages in parallel (default: CPU cores - 1, at most 4).
+ *   Each worker loads its own copy of the language data
+ * - PDF_CONVERT_CONCURRENCY: pages rendered to images at the same time (default 2)
+ * - OCR_LOW_CONFIDENCE_THRESHOLD: mean Tesseract confidence (0-100) below which a page
+ *   is flagged as low confidence in the ingestion report and chunk metadata (default 60)
+ */
+export const OCR_CONFIG = {
+  workers: parseInt(process.env.OCR_WORKERS || String(Math.min(4, Math.max(1, cpus().length - 1)))),
+  convertConcurrency: parseInt(process.env.PDF_CONVERT_CONCURRENCY || "2"),
+  lowConfidenceThreshold: parseFloat(process.env.OCR_LOW_CONFIDENCE_THRESHOLD || "60"),
+};
+
+/**
+ * Image preprocessing between PDF rendering and OCR
+ *
+ * Environment variables (all optional):
+ * - OCR_PREPROCESSING: set to "off" to OCR the rendered pages as they are
+ * - OCR_BINARIZATION: "adaptive" (default), "otsu" or "none"
+ * - OCR_DESKEW / OCR_CROP_MARGINS: set to "off" to disable
+ * - OCR_CROP_TOP / OCR_CROP_BOTTOM: fraction of the page height to cut (default 0)
+ * - OCR_UPSCALE: resize factor before binarization (default 1)
+ * - OCR_DEBUG_IMAGES: set to "on" to save before/after images to OCR_DEBUG_DIR (default data/ocr-debug)
+ */
+export const IMAGE_PREPROCESSING_CONFIG: ImagePreprocessingOptions = {
+  enabled: process.env.OCR_PREPROCESSING !== "off",
+  grayscale: true,
+  binarization: (process.env.OCR_BINARIZATION || "adaptive") as BinarizationMode,
+  deskew: process.env.OCR_DESKEW !== "off",
+  cropMargins: process.env.OCR_CROP_MARGINS !== "off",
+  cropTop: parseFloat(process.env.OCR_CROP_TOP || "0"),
+  cropBottom: parseFloat(process.env.OCR_CROP_BOTTOM || "0"),
+  upscale: parseFloat(process.env.OCR_UPSCALE || "1"),
+  debugDir: process.env.OCR_DEBUG_IMAGES === "on" ? process.env.OCR_DEBUG_DIR || join(process.cwd(), "data", "ocr-debug") : undefined,
+};
+
+/**
+ * Persistent cache of per-page OCR output, so re-ingesting a PDF (e.g. to try other
+ * chunking settings) skips rendering and recognition of pages already read
+ *
+ * Environment variables (all optional):
+ * - OCR_CACHE: set to "off" to always re-run OCR
+ * - OCR_CACHE_DIR: cache directory (default: data/ocr-cache)
+ */
+export const OCR_CACHE_CONFIG = {
+  enabled: process.env.OCR_CACHE !== "off",
+  directory: process.env.OCR_CACHE_DIR || join(process.cwd(), "data", "ocr-cache"),
+};
@@ -0,0 +1,41 @@
+import { join } from "path";
+import type { FusionMethod, RerankerType } from "@/lib/types/retrieval.types";
+
+/**
+ * Configuration for the retrieval pipeline
+ *
+ * Environment variables (all optional):
+ * - HYBRID_SEARCH: set to "off" to use semantic search only
+ * - HYBRID_FUSION: "rrf" (default) or "weighted"
+ * - LEXICAL_INDEX_DIR: directory for BM25 index files (default: data/lexical-index)
+ * - RERANKER: "none" (default), "llm" or "lexical" (offline word overlap)
+ * - RERANK_TOP_N: chunks kept after reranking (default 5)
+ * - QUERY_CONDENSATION: set to "off" to retrieve with the raw follow-up message instead of a history-aware rewrite
+ * - DIVERSITY_SELECTION: set to "off" to skip MMR selection of overlapping chunks
+ * - MMR_LAMBDA: relevance vs diversity trade-off for MMR, 0-1 (default 0.7; 1 = relevance only)
+ * - NEIGHBOR_WINDOW: adjacent chunks merged into each hit on either side (default 0 = off)
+ * - CROSS_LINGUAL_RETRIEVAL: set to "off" to search English questions only as written
+ * - LOW_CONFIDENCE_WEIGHT: score multiplier for chunks from low-confidence OCR pages, 0-1 (default 1 = no down-weighting)
+ */
+export const RETRIEVAL_CONFIG = {
+  hybridSearch: process.env.HYBRID_SEARCH !== "off",
+  fusionMethod: (process.env.HYBRID_FUSION || "rrf") as FusionMethod,
+  // RRF constant; 60 is the value from the original paper and works well in practice
+  rrfK: 60,
+  // Weighted fusion: semantic vs lexical contribution after min-max normalization
+  semanticWeight: 0.6,
+  lexicalWeight: 0.4,
+  lexicalIndexDirectory: process.env.LEXICAL_INDEX_DIR || join(process.cwd(), "data", "lexical-index"),
+  reranker: (process.env.RERANKER || "none") as RerankerType,
+  rerankTopN: parseInt(process.env.RERANK_TOP_N || "5"),
+  queryCondensation: process.env.QUERY_CONDENSATION !== "off",
+  diversitySelection: process.env.DIVERSITY_SELECTION !== "off",
+  mmrLambda: parseFloat(process.env.MMR_LAMBDA || "0.7"),
+  // MMR picks topK chunks out of topK * multiplier candidates
+  mmrCandidateMultiplier: 2,
+  // Word-shingle overlap at which a candidate counts as a duplicate of a selected chunk
+  redundancyThreshold: 0.8,
+  neighborWindow: parseInt(process.env.NEIGHBOR_WINDOW || "0"),
+  crossLingual: process.env.CROSS_LINGUAL_RETRIEVAL !== "off",
+  lowConfidenceWeight: parseFloat(process.env.LOW_CONFIDENCE_WEIGHT || "1"),
+};
@@ -0,0 +1,20 @@
+import { join } from "path";
+import type { VectorStoreProvider } from "@/lib/types/vector-store.types";
+
+/**
+ * Configuration for the vector database backend
+ *
+ * Set VECTOR_STORE=local to run retrieval and ingestion entirely offline against
+ * a JSON file on disk instead of Pinecone. Useful for development, demos and
+ * integration tests without a Pinecone account.
+ *
+ * Environment variables:
+ * - VECTOR_STORE: "pinecone" (default) or "local"
+ * - PINECONE_INDEX: index name (also used as the local store file name)
+ * - LOCAL_VECTOR_STORE_DIR: directory for local index files (default: data/vector-store)
+ */
+export const VECTOR_STORE_CONFIG = {
+  provider: (process.env.VECTOR_STORE || "pinecone") as VectorStoreProvider,
+  localIndexName: process.env.PINECONE_INDEX || "hsc26",
+  localDirectory: process.env.LOCAL_VECTOR_STORE_DIR || join(process.cwd(), "data", "vector-store"),
+};
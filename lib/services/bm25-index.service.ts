@@ -0,0 +1,206 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
+import { LexicalDocument, LexicalMatch } from "../types/retrieval.types";
+import { MetadataFilter, VectorMetadata } from "../types/vector-store.types";
+import { matchesMetadataFilter } from "../utils/vector-query.utils";
+import { analyzeText, ANALYZER_VERSION } from "../utils/bengali-analyzer.utils";
+import { Logger } from "../utils/error-handling.utils";
+
+interface StoredDocument {
+  id: string;
+  content: string;
+  metadata?: VectorMetadata;
+  length: number;
+  termFreqs: Record<string, number>;
+}
+
+interface BM25IndexFile {
+  indexName: string;
+  analyzer?: string;
+  documents: StoredDocument[];
+}
+
+interface LoadedIndex {
+  mtimeMs: number;
+  documents: StoredDocument[];
+  docFreqs: Map<string, number>;
+  postings: Map<string, number[]>;
+  averageLength: number;
+}
+
+/**
+ * Persistent BM25 lexical index over chunk text.
+ *
+ * Built at ingestion time next to the vector index so exact-name queries can
+ * surface chunks the embedding model missed. Document ids match vector ids,
+ * which lets retrieval fuse both result lists.
+ */
+export class BM25IndexService {
+  private indexName: string;
+  private directory: string;
+  private tokenize: (text: string) => string[];
+  private analyzerVersion: string;
+  private k1: number;
+  private b: number;
+  private cache: LoadedIndex | null = null;
+
+  constructor(indexName: string, directory: string, tokenize: (text: string) => string[] = analyzeText, analyzerVersion: string = ANALYZER_VERSION, k1: number = 1.2, b: number = 0.75) {
+    this.indexName = indexName;
+    this.directory = directory;
+    this.tokenize = tokenize;
+    this.analyzerVersion = analyzerVersion;
+    this.k1 = k1;
+    this.b = b;
+  }
+
+  exists(): boolean {
+    return existsSync(this.getFilePath());
+  }
+
+  /**
+   * Add or replace documents (by id) and persist the index
+   */
+  upsertDocuments(documents: LexicalDocument[]): void {
+    const existing = this.exists() ? this.load().documents : [];
+    const byId = new Map(existing.map((doc) => [doc.id, doc]));
+
+    for (const document of documents) {
+      byId.set(document.id, this.analyzeDocument(document));
+    }
+
+    this.save({ indexName: this.indexName, analyzer: this.analyzerVersion, documents: Array.from(byId.values()) });
+  }
+
+  /**
+   * Rank documents for a query with Okapi BM25, optionally restricted by metadata
+   */
+  search(query: string, topK: number = 10, filter?: MetadataFilter): LexicalMatch[] {
+    if (!this.exists()) {
+      return [];
+    }
+
+    const index = this.load();
+    const queryTerms = Array.from(new Set(this.tokenize(query)));
+    const totalDocs = index.documents.length;
+    const scores = new Map<number, number>();
+
+    for (const term of queryTerms) {
+      const postings = index.postings.get(term);
+      if (!postings) continue;
+
+      const docFreq = index.docFreqs.get(term) || 0;
+      const idf = Math.log(1 + (totalDocs - docFreq + 0.5) / (docFreq + 0.5));
+
+      for (const docIndex of postings) {
+        const doc = index.documents[docIndex];
+        const tf = doc.termFreqs[term];
+        const norm = tf + this.k1 * (1 - this.b + (this.b * doc.length) / (index.averageLength || 1));
+        scores.set(docIndex, (scores.get(docIndex) || 0) + idf * ((tf * (this.k1 + 1)) / norm));
+      }
+    }
+
+    return Array.from(scores.entries())
+      .filter(([docIndex]) => matchesMetadataFilter(index.documents[docIndex].metadata, filter))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topK)
+      .map(([docIndex, score]) => {
+        const doc = index.documents[docIndex];
+        return { id: doc.id, score, content: doc.content, metadata: doc.metadata };
+      });
+  }
+
+  getStats(): { documentCount: number; vocabularySize: number } {
+    if (!this.exists()) {
+      return { documentCount: 0, vocabularySize: 0 };
+    }
+    const index = this.load();
+    return { documentCount: index.documents.length, vocabularySize: index.docFreqs.size };
+  }
+
+  clear(): void {
+    rmSync(this.getFilePath(), { force: true });
+    this.cache = null;
+    Logger.info(`🗑️ Lexical index "${this.indexName}" deleted`);
+  }
+
+  /**
+   * Load the index file and build postings, reusing the in-memory copy unless the file changed
+   */
+  private load(): LoadedIndex {
+    const filePath = this.getFilePath();
+    const { mtimeMs } = statSync(filePath);
+
+    if (this.cache && this.cache.mtimeMs === mtimeMs) {
+      return this.cache;
+    }
+
+    const data: BM25IndexFile = JSON.parse(readFileSync(filePath, "utf-8"));
+
+    // Re-analyze stored text when the index was built with different analysis rules
+    if (data.analyzer !== this.analyzerVersion) {
+      Logger.info(`Re-analyzing lexical index "${this.indexName}" (${data.analyzer || "legacy"} → ${this.analyzerVersion})`);
+      this.save({ indexName: this.indexName, analyzer: this.analyzerVersion, documents: data.documents.map((doc) => this.analyzeDocument(doc)) });
+      return this.cache!;
+    }
+
+    this.cache = { mtimeMs, ...this.buildPostings(data.documents) };
+    return this.cache;
+  }
+
+  private analyzeDocument(document: LexicalDocument): StoredDocument {
+    const tokens = this.tokenize(document.content);
+    const termFreqs: Record<string, number> = {};
+    tokens.forEach((token) => {
+      termFreqs[token] = (termFreqs[token] || 0) + 1;
+    });
+
+    return {
+      id: document.id,
+      content: document.content,
+      metadata: document.metadata,
+      length: tokens.length,
+      termFreqs,
+    };
+  }
+
+  private buildPostings(documents: StoredDocument[]): Omit<LoadedIndex, "mtimeMs"> {
+    const docFreqs = new Map<string, number>();
+    const postings = new Map<string, number[]>();
+    let totalLength = 0;
+
+    documents.forEach((doc, docIndex) => {
+      totalLength += doc.length;
+      for (const term of Object.keys(doc.termFreqs)) {
+        docFreqs.set(term, (docFreqs.get(term) || 0) + 1);
+        const list = postings.get(term);
+        if (list) {
+          list.push(docIndex);
+        } else {
+          postings.set(term, [docIndex]);
+        }
+      }
+    });
+
+    return {
+      documents,
+      docFreqs,
+      postings,
+      averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+    };
+  }
+
+  private save(data: BM25IndexFile): void {
+    mkdirSync(this.directory, { recursive: true });
+
+    const filePath = this.getFilePath();
+    const tempPath = `${filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(data));
+    renameSync(tempPath, filePath);
+
+    this.cache = { mtimeMs: statSync(filePath).mtimeMs, ...this.buildPostings(data.documents) };
+  }
+
+  private getFilePath(): string {
+    return join(this.directory, `${this.indexName}.bm25.json`);
+  }
+}
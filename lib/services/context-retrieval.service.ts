@@ -1,51 +1,121 @@
 import { OpenAIService } from "./openai.service";
-import { PineconeService, PineconeQueryResult } from "./pinecone.service";
-import { isBengali, extractBengaliKeywords } from "../utils/language.utils";
+import { BM25IndexService } from "./bm25-index.service";
+import { createLexicalIndex, createVectorStore } from "./vector-store.factory";
+import { MetadataFilter, VectorStore, VectorQueryResult } from "../types/vector-store.types";
+import { QueryExpansionMode, QueryVariant, RetrievalOptions, RetrievalResult, RetrievalTimings, RetrievedChunk } from "../types/retrieval.types";
+import { QueryExpansionService } from "./query-expansion.service";
+import { createReranker } from "./reranker.factory";
+import { isBengali, extractBengaliKeywords, detectQueryLanguage } from "../utils/language.utils";
+import { transliterateToBengali } from "../utils/transliteration.utils";
+import { analyzeText } from "../utils/bengali-analyzer.utils";
+import { buildRetrievalResult, chunksFromVectorMatches, chunkVectorId, describeMetadataFilter, emptyRetrievalResult, matchesMetadataFilter, mergeNeighborWindows } from "../utils/vector-query.utils";
+import { mergeOverlappingText } from "../utils/text-processing.utils";
+import { maximalMarginalRelevance } from "../utils/diversity.utils";
+import { reciprocalRankFusion, weightedScoreFusion, fuseQueryVariantResults, RankedList } from "../utils/fusion.utils";
+import { RETRIEVAL_CONFIG } from "../../config/retrieval";
 
 export class ContextRetrievalService {
   private openaiService: OpenAIService;
-  private pineconeService: PineconeService;
+  private vectorStore: VectorStore;
+  private lexicalIndex: BM25IndexService;
+  private queryExpansionService: QueryExpansionService;
 
-  constructor() {
+  constructor(vectorStore: VectorStore = createVectorStore(), lexicalIndex?: BM25IndexService) {
     this.openaiService = new OpenAIService();
-    this.pineconeService = new PineconeService();
+    this.vectorStore = vectorStore;
+    this.lexicalIndex = lexicalIndex || createLexicalIndex(vectorStore.getIndexName());
+    this.queryExpansionService = new QueryExpansionService(this.openaiService);
   }
 
   /**
-   * Retrieve relevant context from Pinecone with keyword fallback for Bengali
+   * Retrieve relevant context from the vector store, fused with BM25 lexical
+   * search when a lexical index exists, or with a keyword fallback for Bengali.
+   * English questions are also searched with a Bengali translation (cross-lingual).
+   * Chunks from low-confidence OCR pages can be down-weighted (LOW_CONFIDENCE_WEIGHT).
+   * Optionally expands the query (multi-query / HyDE), selects a diverse subset
+   * of overlapping chunks (MMR), reranks candidates and widens each hit with
+   * its neighbouring chunks.
    */
-  async retrieveContext(query: string, topK: number = 10): Promise<PineconeQueryResult> {
+  async retrieveContext(query: string, options: RetrievalOptions = {}): Promise<RetrievalResult> {
+    const {
+      topK = 10,
+      reranker: rerankerType = RETRIEVAL_CONFIG.reranker,
+      rerankTopN = RETRIEVAL_CONFIG.rerankTopN,
+      expansion = "none",
+      mmrLambda = RETRIEVAL_CONFIG.mmrLambda,
+      neighborWindow = RETRIEVAL_CONFIG.neighborWindow,
+      crossLingual = RETRIEVAL_CONFIG.crossLingual,
+      filter,
+      throwOnError = false,
+    } = options;
+
+    const timings: RetrievalTimings = {};
+    const startedAt = Date.now();
+
     try {
       console.log(`🔍 Retrieving context for query: "${query}"`);
+      if (filter) {
+        console.log(`🗂️ Metadata filter: ${describeMetadataFilter(filter)}`);
+      }
 
-      // Create embedding for the query
-      console.log("📊 Creating embedding for query...");
-      const queryEmbedding = await this.openaiService.createEmbedding(query);
-      console.log(`✅ Query embedding created: ${queryEmbedding.length} dimensions`);
+      // The book is in Bengali script, so romanized questions are searched in Bengali
+      const transliteratedQuery = detectQueryLanguage(query) === "romanized-bengali" ? transliterateToBengali(query) : undefined;
+      if (transliteratedQuery) {
+        console.log(`🔡 Romanized Bengali query transliterated: "${transliteratedQuery}"`);
+        query = transliteratedQuery;
+      }
 
-      // Search for similar vectors
-      console.log(`🔎 Searching Pinecone for top ${topK} matches...`);
-      const result = await this.pineconeService.queryVectors(queryEmbedding, topK, 0.1);
+      // Over-fetch when diversity selection runs so dropped near-duplicates can be replaced
+      const candidateK = RETRIEVAL_CONFIG.diversitySelection ? topK * RETRIEVAL_CONFIG.mmrCandidateMultiplier : topK;
 
-      console.log(`📋 Search results: ${result.contexts.length} contexts found`);
-      console.log(`✅ Retrieved ${result.contexts.length} relevant contexts using semantic search`);
+      // English questions against the Bengali corpus: search with a Bengali translation too
+      const translatedQuery = crossLingual && detectQueryLanguage(query) === "english" ? await this.timed(timings, "translation", () => this.queryExpansionService.translateToBengali(query)) : null;
+      if (translatedQuery) {
+        console.log(`🌐 Cross-lingual retrieval, Bengali translation: "${translatedQuery}"`);
+      }
 
-      // If no contexts found or very few, try keyword-based fallback for Bengali queries
-      if (result.contexts.length < 2 && isBengali(query)) {
-        console.log("🔄 Trying keyword-based fallback for Bengali query...");
+      // Bengali-script query used for expansion and reranking
+      const primaryQuery = translatedQuery || query;
 
-        const enhancedResult = await this.performBengaliKeywordFallback(query, queryEmbedding, topK);
-        if (enhancedResult.contexts.length > result.contexts.length) {
-          console.log(`✅ Keyword fallback improved results: ${enhancedResult.contexts.length} total contexts`);
-          return enhancedResult;
-        }
+      let result: RetrievalResult;
+      if (expansion === "none" && !translatedQuery) {
+        result = await this.timed(timings, "search", () => this.retrieveForQuery(query, candidateK, filter));
+      } else {
+        const variants = await this.timed(timings, "expansion", () => this.buildQueryVariants(query, translatedQuery, expansion));
+        result = await this.timed(timings, "search", () => this.retrieveWithVariants(variants, candidateK, filter));
+      }
+
+      if (RETRIEVAL_CONFIG.lowConfidenceWeight < 1) {
+        result = this.weightByConfidence(result, RETRIEVAL_CONFIG.lowConfidenceWeight);
+      }
+
+      if (RETRIEVAL_CONFIG.diversitySelection) {
+        const candidates = result;
+        result = await this.timed(timings, "diversity", async () => this.selectDiverseChunks(candidates, topK, mmrLambda));
+      }
+
+      if (rerankerType && rerankerType !== "none") {
+        const candidates = result;
+        result = await this.timed(timings, "rerank", () => this.rerankResult(primaryQuery, candidates, rerankerType, rerankTopN));
+      }
+
+      if (neighborWindow > 0) {
+        const hits = result;
+        result = await this.timed(timings, "neighborExpansion", () => this.expandWithNeighbors(hits, neighborWindow, filter));
       }
 
+      if (transliteratedQuery) {
+        result = { ...result, transliteratedQuery };
+      }
+
+      timings.total = Date.now() - startedAt;
+      result = { ...result, timings };
+
       if (result.contexts.length > 0) {
         console.log(`📄 Sample context: "${result.contexts[0].substring(0, 100)}..."`);
         // Log all retrieved contexts for debugging
-        result.contexts.forEach((context, index) => {
-          console.log(`📄 Context ${index + 1}: "${context.substring(0, 150)}..."`);
+        result.chunks.forEach((chunk, index) => {
+          console.log(`📄 Context ${index + 1} [${chunk.sources.join("+")}]: "${chunk.content.substring(0, 150)}..."`);
         });
       } else {
         console.log("❌ No contexts retrieved");
@@ -54,63 +124,274 @@ export class ContextRetrievalService {
       return result;
     } catch (error) {
       console.error("❌ Error retrieving context:", error);
-      return {
-        contexts: [],
-        searchScores: [],
-        retrievalMetrics: {
-          totalRetrieved: 0,
-          aboveThreshold: 0,
-          averageSimilarity: 0,
-        },
-      };
+      if (throwOnError) {
+        throw new Error(`Failed to retrieve context: ${(error as Error).message}`);
+      }
+      return emptyRetrievalResult();
+    }
+  }
+
+  /**
+   * Run a pipeline stage and record its duration in milliseconds
+   */
+  private async timed<T>(timings: RetrievalTimings, stage: keyof RetrievalTimings, run: () => Promise<T>): Promise<T> {
+    const stageStart = Date.now();
+    try {
+      return await run();
+    } finally {
+      timings[stage] = Date.now() - stageStart;
     }
   }
 
+  /**
+   * Single-query retrieval: semantic search plus hybrid fusion or keyword fallback
+   */
+  private async retrieveForQuery(query: string, topK: number, filter?: MetadataFilter): Promise<RetrievalResult> {
+    // Create embedding for the query
+    console.log("📊 Creating embedding for query...");
+    const queryEmbedding = await this.openaiService.createEmbedding(query);
+    console.log(`✅ Query embedding created: ${queryEmbedding.length} dimensions`);
+
+    // Search for similar vectors
+    console.log(`🔎 Searching ${this.vectorStore.provider} vector store for top ${topK} matches...`);
+    const semanticResult = await this.vectorStore.queryVectors(queryEmbedding, topK, 0.1, filter);
+
+    console.log(`📋 Search results: ${semanticResult.contexts.length} contexts found`);
+    console.log(`✅ Retrieved ${semanticResult.contexts.length} relevant contexts using semantic search`);
+
+    const result = buildRetrievalResult(semanticResult, chunksFromVectorMatches(semanticResult.matches));
+
+    if (RETRIEVAL_CONFIG.hybridSearch && this.lexicalIndex.exists()) {
+      return this.performHybridFusion(query, semanticResult, topK, filter);
+    }
+
+    // If no contexts found or very few, try keyword-based fallback for Bengali queries
+    if (result.contexts.length < 2 && isBengali(query)) {
+      console.log("🔄 Trying keyword-based fallback for Bengali query...");
+
+      const enhancedResult = await this.performBengaliKeywordFallback(query, queryEmbedding, topK, filter);
+      if (enhancedResult.contexts.length > result.contexts.length) {
+        console.log(`✅ Keyword fallback improved results: ${enhancedResult.contexts.length} total contexts`);
+        return enhancedResult;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Original query, its Bengali translation (if any) and expansions of the Bengali-script query
+   */
+  private async buildQueryVariants(query: string, translatedQuery: string | null, expansion: QueryExpansionMode): Promise<QueryVariant[]> {
+    const variants: QueryVariant[] = [{ label: "original", text: query }];
+    if (translatedQuery) {
+      variants.push({ label: "bengali-translation", text: translatedQuery });
+    }
+
+    if (expansion !== "none") {
+      // expandQuery always returns its input first; it is already in the list
+      const expanded = await this.queryExpansionService.expandQuery(translatedQuery || query, expansion);
+      variants.push(...expanded.slice(1));
+      console.log(`🧭 Query expansion (${expansion}): ${expanded.length - 1} added variants`);
+    }
+
+    return variants;
+  }
+
+  /**
+   * Retrieve for every query variant, then merge and deduplicate with RRF.
+   * Scores and metrics of the Bengali translation (or else the original query)
+   * are kept for evaluation.
+   */
+  private async retrieveWithVariants(variants: QueryVariant[], topK: number, filter?: MetadataFilter): Promise<RetrievalResult> {
+    variants.forEach((variant) => console.log(`   • ${variant.label}: "${variant.text.substring(0, 100)}"`));
+
+    const results = await Promise.all(variants.map((variant) => this.retrieveForQuery(variant.text, topK, filter)));
+
+    const merged = fuseQueryVariantResults(
+      results.map((result, index) => ({ label: variants[index].label, chunks: result.chunks })),
+      RETRIEVAL_CONFIG.rrfK
+    ).slice(0, topK);
+
+    const fromVariantsOnly = merged.filter((chunk) => !chunk.matchedQueries?.includes("original")).length;
+    console.log(`🔀 Merged query variant results: ${merged.length} contexts (${fromVariantsOnly} not found by the original query)`);
+
+    const baseIndex = Math.max(0, variants.findIndex((variant) => variant.label === "bengali-translation"));
+    return { ...buildRetrievalResult(results[baseIndex], merged), queryVariants: variants };
+  }
+
+  /**
+   * Pick topK chunks with maximal marginal relevance so overlapping neighbours
+   * do not crowd out other parts of the book
+   */
+  private selectDiverseChunks(result: RetrievalResult, topK: number, lambda: number): RetrievalResult {
+    if (result.chunks.length === 0) {
+      return result;
+    }
+
+    const selected = maximalMarginalRelevance(result.chunks, topK, lambda, RETRIEVAL_CONFIG.redundancyThreshold);
+    console.log(`🧩 MMR selection (λ=${lambda}): ${selected.length} of ${result.chunks.length} candidates kept`);
+
+    return buildRetrievalResult(result, selected);
+  }
+
+  /**
+   * Scale down the scores of chunks flagged as low OCR confidence at ingestion and re-sort,
+   * so garbled text only wins when nothing cleaner matches
+   */
+  private weightByConfidence(result: RetrievalResult, weight: number): RetrievalResult {
+    const flagged = result.chunks.filter((chunk) => chunk.metadata?.low_confidence).length;
+    if (flagged === 0) {
+      return result;
+    }
+
+    const weighted = result.chunks
+      .map((chunk) => (chunk.metadata?.low_confidence ? { ...chunk, score: chunk.score * weight, confidenceWeight: weight } : chunk))
+      .sort((a, b) => b.score - a.score);
+    console.log(`🔅 Down-weighted ${flagged} low-confidence OCR chunks (×${weight})`);
+
+    return buildRetrievalResult(result, weighted);
+  }
+
+  /**
+   * Rescore candidates with the selected reranker and keep the top N
+   */
+  private async rerankResult(query: string, result: RetrievalResult, rerankerType: RetrievalOptions["reranker"], topN: number): Promise<RetrievalResult> {
+    const reranker = rerankerType ? createReranker(rerankerType, this.openaiService) : null;
+    if (!reranker || result.chunks.length === 0) {
+      return result;
+    }
+
+    console.log(`🏅 Reranking ${result.chunks.length} candidates with ${reranker.name} reranker (keeping top ${topN})...`);
+    const reranked = await reranker.rerank(query, result.chunks, topN);
+    console.log(`✅ Reranked: ${reranked.map((chunk) => `${chunk.id}=${chunk.rerankScore?.toFixed(2)}`).join(", ")}`);
+
+    return buildRetrievalResult(result, reranked);
+  }
+
+  /**
+   * Replace each hit with a continuous passage covering `window` chunks on either side.
+   * Hits whose windows touch are merged into one passage, ranked at the better hit.
+   * Neighbours outside the metadata filter (e.g. the next story) are left out.
+   */
+  private async expandWithNeighbors(result: RetrievalResult, window: number, filter?: MetadataFilter): Promise<RetrievalResult> {
+    const hits: { chunkIndex: number; chunk: RetrievedChunk }[] = [];
+    const passthrough: { rank: number; chunk: RetrievedChunk }[] = [];
+    const texts = new Map<number, string>();
+
+    result.chunks.forEach((chunk, rank) => {
+      const chunkIndex = chunk.metadata?.chunk_index;
+      // MCQs are self-contained records; only prose chunks have meaningful neighbours
+      if (typeof chunkIndex !== "number" || chunk.metadata?.doc_type === "mcq") {
+        passthrough.push({ rank, chunk });
+        return;
+      }
+
+      texts.set(chunkIndex, chunk.content);
+      hits.push({ chunkIndex, chunk });
+    });
+
+    const groups = mergeNeighborWindows(hits.map((hit) => hit.chunkIndex), window).map(({ start, end, ranks }) => {
+      const best = hits[ranks[0]].chunk;
+      return { start, end, chunk: { ...best, sources: Array.from(new Set(ranks.flatMap((rank) => hits[rank].chunk.sources))) } };
+    });
+
+    if (groups.length === 0) {
+      return result;
+    }
+
+    try {
+      const missingIds: string[] = [];
+      groups.forEach((group) => {
+        for (let index = group.start; index <= group.end; index++) {
+          if (!texts.has(index)) missingIds.push(chunkVectorId(index));
+        }
+      });
+
+      const neighbors = await this.vectorStore.fetchVectors(missingIds);
+      neighbors.filter((record) => record.metadata.doc_type !== "mcq" && matchesMetadataFilter(record.metadata, filter)).forEach((record) => texts.set(record.metadata.chunk_index, record.metadata.content));
+
+      const expanded: RetrievedChunk[] = groups.map((group) => {
+        const indices: number[] = [];
+        let content = "";
+        for (let index = group.start; index <= group.end; index++) {
+          const text = texts.get(index);
+          if (text === undefined) continue;
+          indices.push(index);
+          content = content ? mergeOverlappingText(content, text) : text;
+        }
+        return { ...group.chunk, content, expandedChunkIndices: indices };
+      });
+
+      // Chunks that were not expanded are put back near their original rank
+      passthrough.forEach(({ rank, chunk }) => expanded.splice(Math.min(rank, expanded.length), 0, chunk));
+
+      console.log(`🪟 Neighbour expansion (±${window}): ${result.chunks.length} hits → ${expanded.length} passages, ${neighbors.length} neighbouring chunks fetched`);
+      return buildRetrievalResult(result, expanded);
+    } catch (error) {
+      console.error("Error expanding neighbouring chunks:", error);
+      return result;
+    }
+  }
+
+  /**
+   * Fuse semantic results with BM25 lexical results (RRF or weighted)
+   */
+  private performHybridFusion(query: string, semanticResult: VectorQueryResult, topK: number, filter?: MetadataFilter): RetrievalResult {
+    const lexicalMatches = this.lexicalIndex.search(query, topK, filter);
+    console.log(`🔤 BM25 lexical search: ${lexicalMatches.length} matches`);
+
+    const lexicalChunks: RetrievedChunk[] = lexicalMatches.map((match) => ({
+      id: match.id,
+      content: match.content,
+      score: match.score,
+      metadata: match.metadata,
+      sources: ["lexical"],
+      lexicalScore: match.score,
+    }));
+
+    const lists: RankedList[] = [
+      { source: "semantic", items: chunksFromVectorMatches(semanticResult.matches), weight: RETRIEVAL_CONFIG.semanticWeight },
+      { source: "lexical", items: lexicalChunks, weight: RETRIEVAL_CONFIG.lexicalWeight },
+    ];
+
+    const fused = RETRIEVAL_CONFIG.fusionMethod === "weighted" ? weightedScoreFusion(lists) : reciprocalRankFusion(lists, RETRIEVAL_CONFIG.rrfK);
+    const chunks = fused.slice(0, topK);
+
+    const lexicalOnly = chunks.filter((chunk) => !chunk.sources.includes("semantic")).length;
+    console.log(`🔀 Hybrid ${RETRIEVAL_CONFIG.fusionMethod} fusion: ${chunks.length} contexts (${lexicalOnly} surfaced only by BM25)`);
+
+    return buildRetrievalResult(semanticResult, chunks);
+  }
+
   /**
    * Perform Bengali keyword-based fallback search
    */
-  private async performBengaliKeywordFallback(query: string, queryEmbedding: number[], topK: number): Promise<PineconeQueryResult> {
+  private async performBengaliKeywordFallback(query: string, queryEmbedding: number[], topK: number, filter?: MetadataFilter): Promise<RetrievalResult> {
     try {
       // Extract key Bengali words from the query
       const bengaliWords = extractBengaliKeywords(query);
       console.log(`🔤 Bengali keywords found: ${bengaliWords.join(", ")}`);
 
       // Get broader search results for keyword matching
-      const broadResult = await this.pineconeService.queryVectors(queryEmbedding, topK * 2, 0.05);
+      const broadResult = await this.vectorStore.queryVectors(queryEmbedding, topK * 2, 0.05, filter);
+      const chunks = chunksFromVectorMatches(broadResult.matches);
 
-      // Find keyword matches in the broader results
-      const keywordMatches = broadResult.contexts.filter((context) => {
-        return bengaliWords.some((word) => context.includes(word));
+      // Find keyword matches in the broader results (compared as analyzed terms so inflections match)
+      const keywordMatches = chunks.filter((chunk) => {
+        const contentTerms = new Set(analyzeText(chunk.content));
+        return bengaliWords.some((word) => contentTerms.has(word));
       });
 
       if (keywordMatches.length > 0) {
         console.log(`🎯 Found ${keywordMatches.length} keyword matches`);
-
-        // Combine with original semantic results, removing duplicates
-        const combinedContexts = Array.from(new Set([...broadResult.contexts, ...keywordMatches]));
-
-        return {
-          contexts: combinedContexts,
-          searchScores: broadResult.searchScores,
-          retrievalMetrics: {
-            ...broadResult.retrievalMetrics,
-            aboveThreshold: combinedContexts.length,
-          },
-        };
+        keywordMatches.forEach((chunk) => chunk.sources.push("keyword"));
       }
 
-      return broadResult;
+      return buildRetrievalResult(broadResult, chunks);
     } catch (error) {
       console.error("Error in Bengali keyword fallback:", error);
-      return {
-        contexts: [],
-        searchScores: [],
-        retrievalMetrics: {
-          totalRetrieved: 0,
-          aboveThreshold: 0,
-          averageSimilarity: 0,
-        },
-      };
+      return emptyRetrievalResult();
     }
   }
 }
@@ -0,0 +1,224 @@
+import { createHash } from "crypto";
+import { appendFileSync, closeSync, existsSync, mkdirSync, openSync, readdirSync, readFileSync, readSync, rmSync, statSync } from "fs";
+import { join } from "path";
+import { EMBEDDING_CACHE_CONFIG } from "../../config/embeddings";
+import { Logger } from "../utils/error-handling.utils";
+
+export interface EmbeddingCacheStats {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  entries: number;
+  sizeBytes: number;
+  providers: Array<{ provider: string; entries: number; sizeBytes: number }>;
+}
+
+/**
+ * Normalize text before hashing so whitespace and Unicode composition differences
+ * do not produce separate cache entries for the same content
+ */
+export function normalizeForEmbeddingCache(text: string): string {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Number of lines in a file, read in small blocks so large cache files are never held in memory
+ */
+function countLines(filePath: string): number {
+  const buffer = Buffer.alloc(64 * 1024);
+  const fd = openSync(filePath, "r");
+  let lines = 0;
+  try {
+    let bytesRead: number;
+    while ((bytesRead = readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      for (let i = 0; i < bytesRead; i++) {
+        if (buffer[i] === 0x0a) lines++;
+      }
+    }
+  } finally {
+    closeSync(fd);
+  }
+  return lines;
+}
+
+/**
+ * Persistent, content-addressed embedding cache.
+ *
+ * Entries are keyed by the SHA-256 of the normalized text and stored in one
+ * append-only JSONL file per provider/model, so switching models never serves
+ * stale vectors. Files are loaded lazily on first use.
+ */
+export class EmbeddingCacheService {
+  private directory: string;
+  private enabled: boolean;
+  private stores = new Map<string, Map<string, number[]>>();
+  private entryCounts = new Map<string, { sizeBytes: number; entries: number }>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(directory: string = EMBEDDING_CACHE_CONFIG.directory, enabled: boolean = EMBEDDING_CACHE_CONFIG.enabled) {
+    this.directory = directory;
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Look up cached embeddings; returns an array aligned with inputs (undefined for misses)
+   */
+  getMany(providerName: string, inputs: string[]): Array<number[] | undefined> {
+    if (!this.enabled) {
+      return inputs.map(() => undefined);
+    }
+
+    const store = this.loadStore(providerName);
+    return inputs.map((input) => {
+      const embedding = store.get(this.hashText(input));
+      if (embedding) {
+        this.hits++;
+      } else {
+        this.misses++;
+      }
+      return embedding;
+    });
+  }
+
+  /**
+   * Store embeddings for the given inputs
+   */
+  setMany(providerName: string, inputs: string[], embeddings: number[][]): void {
+    if (!this.enabled || inputs.length === 0) {
+      return;
+    }
+
+    const store = this.loadStore(providerName);
+    const lines: string[] = [];
+
+    inputs.forEach((input, index) => {
+      const key = this.hashText(input);
+      if (!store.has(key)) {
+        store.set(key, embeddings[index]);
+        lines.push(JSON.stringify({ key, embedding: embeddings[index] }));
+      }
+    });
+
+    if (lines.length > 0) {
+      try {
+        mkdirSync(this.directory, { recursive: true });
+        appendFileSync(this.getFilePath(providerName), lines.join("\n") + "\n");
+      } catch (error) {
+        // A cache write failure must never fail the embedding request
+        Logger.warning("Failed to persist embedding cache entries:", error);
+      }
+    }
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const providers = existsSync(this.directory)
+      ? readdirSync(this.directory)
+          .filter((file) => file.endsWith(".jsonl"))
+          .map((file) => {
+            const provider = decodeURIComponent(file.replace(/\.jsonl$/, ""));
+            const sizeBytes = statSync(join(this.directory, file)).size;
+            return { provider, entries: this.countEntries(provider, sizeBytes), sizeBytes };
+          })
+      : [];
+
+    const lookups = this.hits + this.misses;
+
+    return {
+      enabled: this.enabled,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 100) / 100 : 0,
+      entries: providers.reduce((sum, provider) => sum + provider.entries, 0),
+      sizeBytes: providers.reduce((sum, provider) => sum + provider.sizeBytes, 0),
+      providers,
+    };
+  }
+
+  /**
+   * Remove all cached embeddings and reset hit/miss counters
+   */
+  clear(): void {
+    if (existsSync(this.directory)) {
+      rmSync(this.directory, { recursive: true, force: true });
+    }
+    this.stores.clear();
+    this.entryCounts.clear();
+    this.hits = 0;
+    this.misses = 0;
+    Logger.info("🧹 Embedding cache cleared");
+  }
+
+  private loadStore(providerName: string): Map<string, number[]> {
+    const filePath = this.getFilePath(providerName);
+    let store = this.stores.get(providerName);
+
+    // Drop the in-memory copy if another route instance cleared the cache on disk
+    if (store && (store.size === 0 || existsSync(filePath))) {
+      return store;
+    }
+
+    store = new Map<string, number[]>();
+
+    if (existsSync(filePath)) {
+      for (const line of readFileSync(filePath, "utf-8").split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          const entry = JSON.parse(line) as { key: string; embedding: number[] };
+          store.set(entry.key, entry.embedding);
+        } catch {
+          // Skip a truncated trailing line from an interrupted write
+        }
+      }
+      Logger.info(`Loaded ${store.size} cached embeddings for ${providerName}`);
+    }
+
+    this.stores.set(providerName, store);
+    return store;
+  }
+
+  /**
+   * Entries of a provider file without parsing it: the in-memory store when it is loaded,
+   * otherwise a line count that is kept until the file size changes
+   */
+  private countEntries(providerName: string, sizeBytes: number): number {
+    const store = this.stores.get(providerName);
+    if (store && store.size > 0) {
+      return store.size;
+    }
+
+    const known = this.entryCounts.get(providerName);
+    if (known && known.sizeBytes === sizeBytes) {
+      return known.entries;
+    }
+
+    const entries = countLines(this.getFilePath(providerName));
+    this.entryCounts.set(providerName, { sizeBytes, entries });
+    return entries;
+  }
+
+  private hashText(text: string): string {
+    return createHash("sha256").update(normalizeForEmbeddingCache(text)).digest("hex");
+  }
+
+  private getFilePath(providerName: string): string {
+    return join(this.directory, `${encodeURIComponent(providerName)}.jsonl`);
+  }
+}
+
+let sharedCache: EmbeddingCacheService | null = null;
+
+/**
+ * Process-wide cache instance so hit/miss stats are shared across API routes
+ */
+export function getEmbeddingCache(): EmbeddingCacheService {
+  if (!sharedCache) {
+    sharedCache = new EmbeddingCacheService();
+  }
+  return sharedCache;
+}
@@ -0,0 +1,28 @@
+import { EmbeddingProvider, EmbeddingProviderType } from "../types/embedding.types";
+import { OpenAIEmbeddingProvider, OpenAICompatibleEmbeddingProvider } from "./openai-embedding.service";
+import { HashingEmbeddingProvider } from "./hashing-embedding.service";
+import { EMBEDDING_CONFIG } from "../../config/embeddings";
+
+/**
+ * Create the embedding provider configured via EMBEDDING_PROVIDER (defaults to OpenAI ada-002)
+ */
+export function createEmbeddingProvider(provider: EmbeddingProviderType = EMBEDDING_CONFIG.provider): EmbeddingProvider {
+  const { dimension } = EMBEDDING_CONFIG;
+  if (dimension !== undefined && (!Number.isInteger(dimension) || dimension <= 0)) {
+    throw new Error(`EMBEDDING_DIMENSION must be a positive integer, got "${process.env.EMBEDDING_DIMENSION}"`);
+  }
+
+  switch (provider) {
+    case "openai":
+      return new OpenAIEmbeddingProvider(EMBEDDING_CONFIG.model, EMBEDDING_CONFIG.dimension);
+    case "openai-compatible":
+      if (!EMBEDDING_CONFIG.baseURL || !EMBEDDING_CONFIG.model || !EMBEDDING_CONFIG.dimension) {
+        throw new Error("EMBEDDING_BASE_URL, EMBEDDING_MODEL and EMBEDDING_DIMENSION are required for openai-compatible embeddings");
+      }
+      return new OpenAICompatibleEmbeddingProvider(EMBEDDING_CONFIG.baseURL, EMBEDDING_CONFIG.model, EMBEDDING_CONFIG.dimension, EMBEDDING_CONFIG.apiKey);
+    case "hashing":
+      return new HashingEmbeddingProvider(EMBEDDING_CONFIG.dimension);
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+}
@@ -0,0 +1,73 @@
+import { EmbeddingProvider } from "../types/embedding.types";
+
+/**
+ * Deterministic, network-free embedder using hashed character n-grams.
+ *
+ * Each word is padded with boundary markers and split into 2-4 character
+ * n-grams; every n-gram is hashed (FNV-1a) into a signed bucket. Shared
+ * sub-word fragments give related Bengali inflections overlapping vectors,
+ * which is enough for offline development, demos and integration tests.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimension: number;
+  private minN: number;
+  private maxN: number;
+
+  constructor(dimension: number = 512, minN: number = 2, maxN: number = 4) {
+    this.dimension = dimension;
+    this.minN = minN;
+    this.maxN = maxN;
+    this.name = `hashing/char-ngram-${minN}-${maxN}-${dimension}`;
+  }
+
+  async embed(input: string): Promise<number[]> {
+    return this.embedSync(input);
+  }
+
+  async embedBatch(inputs: string[]): Promise<number[][]> {
+    return inputs.map((input) => this.embedSync(input));
+  }
+
+  /**
+   * Embed text synchronously; the async methods only wrap this
+   */
+  embedSync(input: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const counts = new Map<string, number>();
+
+    const words = input.normalize("NFC").toLowerCase().match(/[\u0980-\u09FFa-z0-9]+/g) || [];
+    for (const word of words) {
+      const padded = `<${word}>`;
+      for (let n = this.minN; n <= this.maxN; n++) {
+        for (let i = 0; i + n <= padded.length; i++) {
+          const gram = padded.substring(i, i + n);
+          counts.set(gram, (counts.get(gram) || 0) + 1);
+        }
+      }
+    }
+
+    // Sub-linear term frequency keeps long, repetitive chunks from dominating
+    for (const [gram, count] of counts) {
+      const hash = fnv1a(gram);
+      const bucket = hash % this.dimension;
+      const sign = (hash >>> 31) & 1 ? -1 : 1;
+      vector[bucket] += sign * (1 + Math.log(count));
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+    return magnitude === 0 ? vector : vector.map((val) => val / magnitude);
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash over UTF-16 code units
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
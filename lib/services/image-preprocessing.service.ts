@@ -0,0 +1,141 @@
+import sharp from "sharp";
+import { copyFileSync, existsSync, mkdirSync } from "fs";
+import { join } from "path";
+import { ImagePreprocessingOptions, PDFImage } from "../types/pdf-processing.types";
+import { Logger } from "../utils/error-handling.utils";
+import { adaptiveBinarize, estimateSkewAngle, findContentBounds, globalBinarize } from "../utils/image-processing.utils";
+import { IMAGE_PREPROCESSING_CONFIG } from "../../config/ocr";
+
+/** Width the page is scaled down to for skew detection */
+const SKEW_SAMPLE_WIDTH = 800;
+/** Rotations smaller than this are left alone */
+const MIN_SKEW_ANGLE = 0.1;
+/** White border kept around the text after margin cropping, as a fraction of the page width */
+const MARGIN_PADDING = 0.01;
+
+export class ImagePreprocessingService {
+  private options: ImagePreprocessingOptions;
+
+  constructor(options: Partial<ImagePreprocessingOptions> = {}) {
+    this.options = { ...IMAGE_PREPROCESSING_CONFIG, ...options };
+
+    if (this.options.debugDir && !existsSync(this.options.debugDir)) {
+      mkdirSync(this.options.debugDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Settings that affect the prepared image (debug output excluded), e.g. for cache keys
+   */
+  getSettings(): Record<string, unknown> {
+    if (!this.options.enabled) {
+      return { enabled: false };
+    }
+    const settings: Record<string, unknown> = { ...this.options };
+    delete settings.debugDir;
+    return settings;
+  }
+
+  /**
+   * Clean up a rendered page for OCR: grayscale and contrast stretch, optional upscaling,
+   * deskew, binarization and cropping of margins and header/footer bands.
+   * Writes the result next to the original and returns it; on failure the original
+   * image is returned so the page is still OCR'd.
+   */
+  async preprocess(image: PDFImage): Promise<PDFImage> {
+    if (!this.options.enabled) {
+      return image;
+    }
+
+    const { binarization, upscale } = this.options;
+
+    try {
+      const outputPath = image.imagePath.replace(/\.png$/i, "") + ".prepared.png";
+
+      // Grayscale (also needed for every pixel-level step) and upscaling
+      let base = sharp(image.imagePath);
+      if (upscale !== 1) {
+        const { width = 0 } = await base.metadata();
+        base = base.resize(Math.round(width * upscale));
+      }
+      if (this.options.grayscale || binarization !== "none") {
+        base = base.greyscale().normalise();
+      }
+      let buffer = await base.png().toBuffer();
+
+      // Deskew, measured on a small copy of the page
+      let angle = 0;
+      if (this.options.deskew) {
+        angle = await this.measureSkew(buffer);
+        if (Math.abs(angle) >= MIN_SKEW_ANGLE) {
+          buffer = await sharp(buffer).rotate(-angle, { background: "#ffffff" }).png().toBuffer();
+        }
+      }
+
+      const { data, info } = await sharp(buffer).greyscale().extractChannel(0).raw().toBuffer({ resolveWithObject: true });
+      const pixels = new Uint8Array(data.buffer, data.byteOffset, data.length);
+      const { width, height } = info;
+
+      let binary: Uint8Array | null = null;
+      if (binarization === "adaptive") {
+        binary = adaptiveBinarize(pixels, width, height, Math.round(width / 40));
+      } else if (binarization === "otsu") {
+        binary = globalBinarize(pixels);
+      }
+
+      const box = this.cropBox(binary || globalBinarize(pixels), width, height);
+      const output = binary ? sharp(Buffer.from(binary), { raw: { width, height, channels: 1 } }).toColourspace("b-w") : sharp(buffer);
+      await output.extract(box).png().toFile(outputPath);
+
+      Logger.debug(`Page ${image.page}: preprocessed (skew ${angle.toFixed(2)}°, ${binarization} binarization, crop ${box.width}x${box.height})`);
+
+      if (this.options.debugDir) {
+        copyFileSync(image.imagePath, join(this.options.debugDir, `page-${image.page}.before.png`));
+        copyFileSync(outputPath, join(this.options.debugDir, `page-${image.page}.after.png`));
+      }
+
+      return { page: image.page, imagePath: outputPath };
+    } catch (error) {
+      Logger.warning(`Page ${image.page}: preprocessing failed, using the rendered image:`, error);
+      return image;
+    }
+  }
+
+  /**
+   * Skew angle of the text lines in degrees (positive = clockwise)
+   */
+  private async measureSkew(buffer: Buffer): Promise<number> {
+    const { data, info } = await sharp(buffer).greyscale().extractChannel(0).resize(SKEW_SAMPLE_WIDTH).raw().toBuffer({ resolveWithObject: true });
+    const sample = globalBinarize(new Uint8Array(data.buffer, data.byteOffset, data.length));
+    return estimateSkewAngle(sample, info.width, info.height);
+  }
+
+  /**
+   * Region kept for OCR: the page minus the header/footer bands, tightened to the
+   * text with a small white border when margin cropping is on
+   */
+  private cropBox(binary: Uint8Array, width: number, height: number): { left: number; top: number; width: number; height: number } {
+    const top = Math.round(height * this.options.cropTop);
+    const bottom = height - Math.round(height * this.options.cropBottom);
+    const band = { left: 0, top, width, height: Math.max(1, bottom - top) };
+
+    if (!this.options.cropMargins) {
+      return band;
+    }
+
+    const bounds = findContentBounds(binary.subarray(band.top * width, (band.top + band.height) * width), width, band.height);
+    if (!bounds) {
+      return band;
+    }
+
+    const padding = Math.round(width * MARGIN_PADDING);
+    const left = Math.max(0, bounds.left - padding);
+    const boxTop = Math.max(0, bounds.top - padding);
+    return {
+      left,
+      top: band.top + boxTop,
+      width: Math.min(width, bounds.left + bounds.width + padding) - left,
+      height: Math.min(band.height, bounds.top + bounds.height + padding) - boxTop,
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import { Reranker, RetrievedChunk } from "../types/retrieval.types";
+import { analyzeText } from "../utils/bengali-analyzer.utils";
+
+/**
+ * Cheap offline reranker: blends query-term coverage (after Bengali analysis)
+ * with the candidate's normalized retrieval score
+ */
+export class LexicalRerankerService implements Reranker {
+  readonly name = "lexical";
+  private overlapWeight: number;
+
+  constructor(overlapWeight: number = 0.7) {
+    this.overlapWeight = overlapWeight;
+  }
+
+  async rerank(query: string, chunks: RetrievedChunk[], topN: number): Promise<RetrievedChunk[]> {
+    const queryTerms = Array.from(new Set(analyzeText(query)));
+    const scores = chunks.map((chunk) => chunk.score);
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+
+    return chunks
+      .map((chunk) => {
+        const contentTerms = new Set(analyzeText(chunk.content));
+        const coverage = queryTerms.length > 0 ? queryTerms.filter((term) => contentTerms.has(term)).length / queryTerms.length : 0;
+        const normalizedScore = max > min ? (chunk.score - min) / (max - min) : 1;
+        const rerankScore = this.overlapWeight * coverage + (1 - this.overlapWeight) * normalizedScore;
+
+        return { ...chunk, originalScore: chunk.score, rerankScore, score: rerankScore };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topN);
+  }
+}
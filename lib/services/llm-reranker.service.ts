@@ -0,0 +1,63 @@
+import OpenAI from "openai";
+import { OpenAIService } from "./openai.service";
+import { Reranker, RetrievedChunk } from "../types/retrieval.types";
+import { Logger } from "../utils/error-handling.utils";
+import { truncateGraphemes } from "../utils/grapheme.utils";
+
+/**
+ * Reranks candidates by asking the chat model to grade each passage's relevance (0-10)
+ * in a single JSON-mode call. Falls back to the original order if the call fails.
+ */
+export class LLMRerankerService implements Reranker {
+  readonly name = "llm";
+  private openaiService: OpenAIService;
+  private maxPassageChars: number;
+
+  constructor(openaiService: OpenAIService = new OpenAIService(), maxPassageChars: number = 700) {
+    this.openaiService = openaiService;
+    this.maxPassageChars = maxPassageChars;
+  }
+
+  async rerank(query: string, chunks: RetrievedChunk[], topN: number): Promise<RetrievedChunk[]> {
+    if (chunks.length === 0) {
+      return [];
+    }
+
+    try {
+      const passages = chunks.map((chunk, index) => `[${index}] ${truncateGraphemes(chunk.content, this.maxPassageChars)}`).join("\n\n");
+
+      const completion = (await this.openaiService.createChatCompletion(
+        [
+          {
+            role: "system",
+            content:
+              'You grade how well passages from a Bengali textbook answer a question. Score each passage from 0 (irrelevant) to 10 (directly answers it). Respond only with JSON: {"scores": [{"index": number, "score": number}]}',
+          },
+          { role: "user", content: `Question: ${query}\n\nPassages:\n${passages}` },
+        ],
+        { temperature: 0, maxTokens: 500, responseFormat: "json_object" }
+      )) as OpenAI.Chat.Completions.ChatCompletion;
+
+      const parsed = JSON.parse(completion.choices[0]?.message?.content || "{}") as { scores?: Array<{ index: number; score: number }> };
+      const scoreByIndex = new Map<number, number>();
+      (parsed.scores || []).forEach(({ index, score }) => {
+        if (Number.isInteger(index) && typeof score === "number") {
+          scoreByIndex.set(index, Math.max(0, Math.min(10, score)) / 10);
+        }
+      });
+
+      return chunks
+        .map((chunk, index) => ({
+          ...chunk,
+          originalScore: chunk.score,
+          rerankScore: scoreByIndex.get(index) ?? 0,
+          score: scoreByIndex.get(index) ?? 0,
+        }))
+        .sort((a, b) => b.score - a.score || b.originalScore - a.originalScore)
+        .slice(0, topN);
+    } catch (error) {
+      Logger.warning("LLM reranking failed, keeping original order:", error);
+      return chunks.slice(0, topN);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
+import { IndexStats, MetadataFilter, VectorMatch, VectorQueryResult, VectorRecord, VectorStore } from "../types/vector-store.types";
+import { buildVectorQueryResult, matchesMetadataFilter } from "../utils/vector-query.utils";
+import { cosineSimilarity } from "../utils/math.utils";
+import { Logger } from "../utils/error-handling.utils";
+
+interface LocalIndexFile {
+  indexName: string;
+  dimension: number;
+  metric: "cosine";
+  vectors: VectorRecord[];
+}
+
+/**
+ * File-backed vector store with exact cosine search, for offline development and tests
+ */
+export class LocalVectorStoreService implements VectorStore {
+  readonly provider = "local" as const;
+  private indexName: string;
+  private directory: string;
+  private cache: { mtimeMs: number; data: LocalIndexFile } | null = null;
+
+  constructor(indexName: string, directory: string) {
+    this.indexName = indexName;
+    this.directory = directory;
+  }
+
+  async checkIndexExists(): Promise<boolean> {
+    return existsSync(this.getFilePath());
+  }
+
+  async createIndex(dimension: number): Promise<void> {
+    if (existsSync(this.getFilePath())) {
+      throw new Error(`Local index "${this.indexName}" already exists`);
+    }
+
+    this.writeIndex({ indexName: this.indexName, dimension, metric: "cosine", vectors: [] });
+    Logger.success(`Local index "${this.indexName}" created at ${this.getFilePath()}`);
+  }
+
+  async deleteIndex(): Promise<void> {
+    rmSync(this.getFilePath(), { force: true });
+    this.cache = null;
+    Logger.info(`🗑️ Local index "${this.indexName}" deleted`);
+  }
+
+  async queryVectors(vector: number[], topK: number = 10, threshold: number = 0.1, filter?: MetadataFilter): Promise<VectorQueryResult> {
+    try {
+      const index = this.readIndex();
+
+      const matches: VectorMatch[] = index.vectors
+        .filter((record) => matchesMetadataFilter(record.metadata, filter))
+        .map((record) => ({
+          id: record.id,
+          score: cosineSimilarity(vector, record.values),
+          metadata: record.metadata,
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+
+      return buildVectorQueryResult(matches, threshold);
+    } catch (error) {
+      Logger.error("Error querying local vector store:", error);
+      throw new Error(`Failed to query local vector store: ${(error as Error).message}`);
+    }
+  }
+
+  async fetchVectors(ids: string[]): Promise<VectorRecord[]> {
+    const wanted = new Set(ids);
+    return this.readIndex().vectors.filter((record) => wanted.has(record.id));
+  }
+
+  async upsertVectors(vectors: VectorRecord[]): Promise<void> {
+    try {
+      const index = this.readIndex();
+
+      for (const vector of vectors) {
+        if (vector.values.length !== index.dimension) {
+          throw new Error(`Vector "${vector.id}" has dimension ${vector.values.length}, index expects ${index.dimension}`);
+        }
+      }
+
+      const byId = new Map(index.vectors.map((record) => [record.id, record]));
+      vectors.forEach((vector) => byId.set(vector.id, vector));
+
+      this.writeIndex({ ...index, vectors: Array.from(byId.values()) });
+    } catch (error) {
+      Logger.error("Error upserting to local vector store:", error);
+      throw new Error(`Failed to upsert to local vector store: ${(error as Error).message}`);
+    }
+  }
+
+  async getIndexStats(): Promise<IndexStats> {
+    const index = this.readIndex();
+    return {
+      totalRecordCount: index.vectors.length,
+      dimension: index.dimension,
+    };
+  }
+
+  getIndexName(): string {
+    return this.indexName;
+  }
+
+  /**
+   * Load the index file, reusing the in-memory copy unless the file changed on disk
+   */
+  private readIndex(): LocalIndexFile {
+    const filePath = this.getFilePath();
+    if (!existsSync(filePath)) {
+      throw new Error(`Local index "${this.indexName}" does not exist. Please create it first using /api/create-index`);
+    }
+
+    const { mtimeMs } = statSync(filePath);
+    if (!this.cache || this.cache.mtimeMs !== mtimeMs) {
+      this.cache = { mtimeMs, data: JSON.parse(readFileSync(filePath, "utf-8")) };
+    }
+
+    return this.cache.data;
+  }
+
+  /**
+   * Persist the index atomically (write to a temp file, then rename)
+   */
+  private writeIndex(data: LocalIndexFile): void {
+    mkdirSync(this.directory, { recursive: true });
+
+    const filePath = this.getFilePath();
+    const tempPath = `${filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(data));
+    renameSync(tempPath, filePath);
+
+    this.cache = { mtimeMs: statSync(filePath).mtimeMs, data };
+  }
+
+  private getFilePath(): string {
+    return join(this.directory, `${this.indexName}.json`);
+  }
+}
@@ -0,0 +1,203 @@
+import { DocumentChunk, MCQExtractionResult, MCQOptionLabel, MCQRecord, PageSpan } from "../types/pdf-processing.types";
+import { findPageRange } from "../utils/text-processing.utils";
+import { detectSections } from "../utils/section-detection.utils";
+import { Logger } from "../utils/error-handling.utils";
+
+const OPTION_LABELS: MCQOptionLabel[] = ["ক", "খ", "গ", "ঘ"];
+
+// "১." / "12)" / "৩।" at the start of a line
+const QUESTION_START = /(?:^|\n)[ \t]*([0-9\u09E6-\u09EF]{1,3})[ \t]*[.।)][ \t]*/g;
+
+// "(ক)", "ক)", "ক." or "ক।" preceded by start of text or whitespace
+const OPTION_MARKER = /(?:^|\s)[(]?[ \t]*([কখগঘ])[ \t]*[).।][ \t]*/g;
+
+// "উত্তর: খ", "সঠিক উত্তর (খ)", "উত্তরঃ খ"
+const INLINE_ANSWER = /(?:সঠিক\s*)?উত্তর\s*[:ঃ\-–]?\s*[(]?\s*([কখগঘ])(?![\u0980-\u09FF])/;
+
+// Answer key blocks: "উত্তরমালা", "উত্তর সংকেত", followed by "১.খ ২.গ ..."
+const ANSWER_KEY_HEADING = /উত্তর\s*(?:মালা|সংকেত)\s*[:ঃ]?/g;
+const ANSWER_KEY_ENTRY = /([0-9\u09E6-\u09EF]{1,3})\s*[.।\-–)]\s*[(]?([কখগঘ])[)]?/g;
+
+const MAX_QUESTION_LENGTH = 800;
+const MAX_ANSWER_KEY_LENGTH = 600;
+
+/**
+ * Parse a number written with Bengali or ASCII digits
+ */
+function parseNumber(digits: string): number {
+  return parseInt(digits.replace(/[\u09E6-\u09EF]/g, (digit) => String(digit.charCodeAt(0) - 0x09e6)), 10);
+}
+
+/**
+ * Extracts multiple-choice questions (stem, options ক-ঘ, answer) from OCR text.
+ *
+ * The sentence chunker splits question blocks into fragments without their
+ * options or answers. Parsed questions are indexed as their own documents, with
+ * the answer from an inline "উত্তর: খ" or from the lesson's answer key.
+ */
+export class MCQExtractionService {
+  /**
+   * Find all questions and answer keys in the document text
+   */
+  extract(text: string, pageSpans: PageSpan[] = []): MCQExtractionResult {
+    const records: MCQRecord[] = [];
+    const consumedRanges: Array<{ start: number; end: number }> = [];
+
+    const starts = Array.from(text.matchAll(QUESTION_START)).map((match) => ({
+      number: parseNumber(match[1]),
+      start: (match.index || 0) + (match[0].startsWith("\n") ? 1 : 0),
+      bodyStart: (match.index || 0) + match[0].length,
+    }));
+
+    starts.forEach((questionStart, index) => {
+      const limit = Math.min(index + 1 < starts.length ? starts[index + 1].start : text.length, questionStart.start + MAX_QUESTION_LENGTH);
+      const record = this.parseQuestion(text, questionStart.number, questionStart.start, questionStart.bodyStart, limit);
+      if (record) {
+        const pages = findPageRange(pageSpans, record.start, record.end);
+        records.push({ ...record, page_start: pages?.pageStart, page_end: pages?.pageEnd });
+        consumedRanges.push({ start: record.start, end: record.end });
+      }
+    });
+
+    consumedRanges.push(...this.applyAnswerKeys(text, records));
+    this.assignSectionTitles(text, records);
+
+    const answered = records.filter((record) => record.answer).length;
+    Logger.info(`📝 MCQ extraction: ${records.length} questions (${answered} with answers)`);
+
+    return { records, consumedRanges: consumedRanges.sort((a, b) => a.start - b.start) };
+  }
+
+  /**
+   * Turn questions into index documents whose content carries the stem, options and answer
+   */
+  toDocumentChunks(records: MCQRecord[], firstChunkIndex: number, source: string = "hsc26.pdf"): DocumentChunk[] {
+    return records.map((record, index) => {
+      const content = this.formatQuestion(record);
+      return {
+        content,
+        metadata: {
+          source,
+          page: record.page_start,
+          page_start: record.page_start,
+          page_end: record.page_end,
+          section_type: "exercise",
+          section_title: record.section_title,
+          doc_type: "mcq",
+          mcq_options: OPTION_LABELS.map((label) => `${label}. ${record.options[label]}`),
+          mcq_answer: record.answer,
+          chunk_index: firstChunkIndex + index,
+          char_count: content.length,
+        },
+      };
+    });
+  }
+
+  /**
+   * Render a question as text for embedding and for the chat prompt
+   */
+  formatQuestion(record: MCQRecord): string {
+    const lines = [`প্রশ্ন ${record.number}: ${record.stem}`, ...OPTION_LABELS.map((label) => `(${label}) ${record.options[label]}`)];
+    if (record.answer) {
+      lines.push(`সঠিক উত্তর: (${record.answer}) ${record.options[record.answer]}`);
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Parse one question block; returns null unless all four options are found in order
+   */
+  private parseQuestion(text: string, number: number, start: number, bodyStart: number, limit: number): Omit<MCQRecord, "page_start" | "page_end"> | null {
+    const block = text.slice(bodyStart, limit);
+    const markers = Array.from(block.matchAll(OPTION_MARKER));
+
+    // Take the first ক and the first following খ, গ, ঘ in sequence
+    const ordered: RegExpMatchArray[] = [];
+    for (const marker of markers) {
+      if (marker[1] === OPTION_LABELS[ordered.length]) {
+        ordered.push(marker);
+        if (ordered.length === OPTION_LABELS.length) break;
+      }
+    }
+    if (ordered.length < OPTION_LABELS.length) {
+      return null;
+    }
+
+    const stem = block.slice(0, ordered[0].index).replace(/\s+/g, " ").trim();
+    if (!stem) {
+      return null;
+    }
+
+    const options = {} as Record<MCQOptionLabel, string>;
+    let end = bodyStart;
+    ordered.forEach((marker, index) => {
+      const optionStart = (marker.index || 0) + marker[0].length;
+      // The last option runs to the end of its line
+      const optionEnd = index + 1 < ordered.length ? ordered[index + 1].index || 0 : this.endOfLine(block, optionStart);
+      options[OPTION_LABELS[index]] = block.slice(optionStart, optionEnd).replace(/\s+/g, " ").trim();
+      end = bodyStart + optionEnd;
+    });
+
+    // An inline answer right after the options ("উত্তর: খ")
+    const rest = block.slice(end - bodyStart);
+    const answerMatch = INLINE_ANSWER.exec(rest.slice(0, 80));
+    let answer: MCQOptionLabel | undefined;
+    if (answerMatch) {
+      answer = answerMatch[1] as MCQOptionLabel;
+      end += (answerMatch.index || 0) + answerMatch[0].length;
+    }
+
+    return { number, stem, options, answer, start, end };
+  }
+
+  /**
+   * Fill in answers from answer keys; each key applies to the questions since the previous key
+   */
+  private applyAnswerKeys(text: string, records: MCQRecord[]): Array<{ start: number; end: number }> {
+    const consumed: Array<{ start: number; end: number }> = [];
+    let previousKeyEnd = 0;
+
+    for (const heading of Array.from(text.matchAll(ANSWER_KEY_HEADING))) {
+      const keyStart = heading.index || 0;
+      const bodyStart = keyStart + heading[0].length;
+      const body = text.slice(bodyStart, bodyStart + MAX_ANSWER_KEY_LENGTH).split(/\n\s*\n/)[0];
+
+      const answers = new Map<number, MCQOptionLabel>();
+      for (const entry of Array.from(body.matchAll(ANSWER_KEY_ENTRY))) {
+        answers.set(parseNumber(entry[1]), entry[2] as MCQOptionLabel);
+      }
+      if (answers.size === 0) continue;
+
+      let applied = 0;
+      for (const record of records) {
+        if (record.start >= previousKeyEnd && record.start < keyStart && !record.answer && answers.has(record.number)) {
+          record.answer = answers.get(record.number);
+          applied++;
+        }
+      }
+
+      Logger.debug(`Answer key at ${keyStart}: ${answers.size} entries, ${applied} applied`);
+      previousKeyEnd = bodyStart + body.length;
+      consumed.push({ start: keyStart, end: previousKeyEnd });
+    }
+
+    return consumed;
+  }
+
+  private assignSectionTitles(text: string, records: MCQRecord[]): void {
+    if (records.length === 0) return;
+
+    const sections = detectSections(text);
+    for (const record of records) {
+      const section = sections.find((candidate) => record.start >= candidate.start && record.start < candidate.end);
+      if (section?.title) {
+        record.section_title = section.title;
+      }
+    }
+  }
+
+  private endOfLine(text: string, from: number): number {
+    const newline = text.indexOf("\n", from);
+    return newline === -1 ? text.length : newline;
+  }
+}
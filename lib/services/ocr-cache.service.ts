@@ -0,0 +1,251 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { OCRConfidence, PageRecognition } from "../types/pdf-processing.types";
+import { Logger } from "../utils/error-handling.utils";
+import { cleanBengaliText } from "../utils/text-processing.utils";
+import { OCR_CACHE_CONFIG } from "../../config/ocr";
+
+/** Settings that change what OCR reads from a page; pages OCR'd with other settings are separate entries */
+export interface OCRCacheVariant {
+  languages: string;
+  preprocessing: Record<string, unknown>;
+}
+
+interface OCRCacheEntry extends OCRCacheVariant {
+  page: number;
+  source: string;
+  /** Uncleaned Tesseract output; cleaned on every read */
+  rawText: string;
+  confidence: OCRConfidence;
+  createdAt: string;
+}
+
+export interface OCRCacheStats {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  entries: number;
+  sizeBytes: number;
+  documents: Array<{
+    pdfHash: string;
+    source: string;
+    pages: number[];
+    variants: OCRCacheVariant[];
+    entries: number;
+    sizeBytes: number;
+  }>;
+}
+
+const PDF_HASH = /^[a-f0-9]{64}$/;
+const ENTRY_FILE = /^page-(\d+)\.([a-f0-9]+)\.json$/;
+
+/**
+ * Persistent cache of per-page OCR output.
+ *
+ * Entries are keyed by the SHA-256 of the PDF's content, the page number and a hash
+ * of the OCR languages and preprocessing settings, and stored as one JSON file per
+ * page under a directory per PDF, so a document or single pages can be invalidated.
+ * The raw Tesseract text is stored and cleaned on read, so changes to the cleaning
+ * rules apply to cached pages without invalidating them. Only successful recognitions
+ * are cached; failed pages are retried next time.
+ */
+export class OCRCacheService {
+  private directory: string;
+  private enabled: boolean;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(directory: string = OCR_CACHE_CONFIG.directory, enabled: boolean = OCR_CACHE_CONFIG.enabled) {
+    this.directory = directory;
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Content hash identifying a PDF, independent of its file name or location
+   */
+  async hashPdf(pdfPath: string): Promise<string> {
+    return createHash("sha256")
+      .update(await readFile(pdfPath))
+      .digest("hex");
+  }
+
+  /**
+   * Cached recognition of a page, or undefined when it has not been OCR'd with these settings
+   */
+  get(pdfHash: string, page: number, variant: OCRCacheVariant): PageRecognition | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const filePath = this.getEntryPath(pdfHash, page, variant);
+    if (existsSync(filePath)) {
+      try {
+        const entry = JSON.parse(readFileSync(filePath, "utf-8")) as OCRCacheEntry;
+        // Entries without raw text cannot be re-cleaned and are OCR'd again
+        if (typeof entry.rawText === "string") {
+          this.hits++;
+          return { page: entry.page, text: cleanBengaliText(entry.rawText), rawText: entry.rawText, confidence: entry.confidence };
+        }
+      } catch (error) {
+        Logger.warning(`Ignoring unreadable OCR cache entry ${filePath}:`, error);
+      }
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  /**
+   * Store a page recognition; pages where OCR failed (no confidence) are not cached
+   */
+  set(pdfHash: string, recognition: PageRecognition, variant: OCRCacheVariant, source: string): void {
+    if (!this.enabled || !recognition.confidence || recognition.rawText === undefined) {
+      return;
+    }
+
+    const entry: OCRCacheEntry = {
+      page: recognition.page,
+      source,
+      ...variant,
+      rawText: recognition.rawText,
+      confidence: recognition.confidence,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      mkdirSync(join(this.directory, pdfHash), { recursive: true });
+      writeFileSync(this.getEntryPath(pdfHash, recognition.page, variant), JSON.stringify(entry));
+    } catch (error) {
+      // A cache write failure must never fail ingestion
+      Logger.warning(`Failed to cache OCR output for page ${recognition.page}:`, error);
+    }
+  }
+
+  getStats(): OCRCacheStats {
+    const documents = existsSync(this.directory)
+      ? readdirSync(this.directory)
+          .filter((name) => PDF_HASH.test(name))
+          .map((pdfHash) => this.describeDocument(pdfHash))
+          .filter((document) => document.entries > 0)
+      : [];
+
+    const lookups = this.hits + this.misses;
+
+    return {
+      enabled: this.enabled,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 100) / 100 : 0,
+      entries: documents.reduce((sum, document) => sum + document.entries, 0),
+      sizeBytes: documents.reduce((sum, document) => sum + document.sizeBytes, 0),
+      documents,
+    };
+  }
+
+  /**
+   * Remove the cached pages of one PDF (all of them when `pages` is omitted), for every
+   * language and preprocessing variant. Returns the number of entries removed.
+   */
+  invalidate(pdfHash: string, pages?: number[]): number {
+    if (!PDF_HASH.test(pdfHash)) {
+      throw new Error(`Invalid PDF hash: ${pdfHash}`);
+    }
+
+    const documentDir = join(this.directory, pdfHash);
+    if (!existsSync(documentDir)) {
+      return 0;
+    }
+
+    let removed = 0;
+    if (!pages) {
+      removed = this.listEntryFiles(pdfHash).length;
+      rmSync(documentDir, { recursive: true, force: true });
+    } else {
+      const selected = new Set(pages);
+      for (const file of this.listEntryFiles(pdfHash)) {
+        if (selected.has(parseInt(ENTRY_FILE.exec(file)![1]))) {
+          rmSync(join(documentDir, file), { force: true });
+          removed++;
+        }
+      }
+    }
+
+    Logger.info(`🧹 Invalidated ${removed} cached OCR pages for ${pdfHash.slice(0, 12)}${pages ? ` (pages ${pages.join(", ")})` : ""}`);
+    return removed;
+  }
+
+  /**
+   * Remove all cached OCR output and reset hit/miss counters
+   */
+  clear(): void {
+    if (existsSync(this.directory)) {
+      rmSync(this.directory, { recursive: true, force: true });
+    }
+    this.hits = 0;
+    this.misses = 0;
+    Logger.info("🧹 OCR cache cleared");
+  }
+
+  private describeDocument(pdfHash: string): OCRCacheStats["documents"][number] {
+    const pages = new Set<number>();
+    const variants = new Map<string, OCRCacheVariant>();
+    let source = "";
+    let sizeBytes = 0;
+    const files = this.listEntryFiles(pdfHash);
+
+    for (const file of files) {
+      const filePath = join(this.directory, pdfHash, file);
+      const [, page, variantKey] = ENTRY_FILE.exec(file)!;
+      pages.add(parseInt(page));
+      sizeBytes += statSync(filePath).size;
+
+      if (!variants.has(variantKey) || !source) {
+        try {
+          const entry = JSON.parse(readFileSync(filePath, "utf-8")) as OCRCacheEntry;
+          variants.set(variantKey, { languages: entry.languages, preprocessing: entry.preprocessing });
+          source = source || entry.source;
+        } catch {
+          // Counted above; a corrupt entry is simply a miss on lookup
+        }
+      }
+    }
+
+    return {
+      pdfHash,
+      source,
+      pages: Array.from(pages).sort((a, b) => a - b),
+      variants: Array.from(variants.values()),
+      entries: files.length,
+      sizeBytes,
+    };
+  }
+
+  private listEntryFiles(pdfHash: string): string[] {
+    const documentDir = join(this.directory, pdfHash);
+    return existsSync(documentDir) ? readdirSync(documentDir).filter((file) => ENTRY_FILE.test(file)) : [];
+  }
+
+  private getEntryPath(pdfHash: string, page: number, variant: OCRCacheVariant): string {
+    const variantKey = createHash("sha256").update(JSON.stringify(variant)).digest("hex").slice(0, 16);
+    return join(this.directory, pdfHash, `page-${page}.${variantKey}.json`);
+  }
+}
+
+let sharedCache: OCRCacheService | null = null;
+
+/**
+ * Process-wide cache instance so hit/miss stats are shared across API routes
+ */
+export function getOCRCache(): OCRCacheService {
+  if (!sharedCache) {
+    sharedCache = new OCRCacheService();
+  }
+  return sharedCache;
+}
@@ -1,91 +1,158 @@
-import { createWorker } from "tesseract.js";
-import { PDFImage, OCRResult } from "../types/pdf-processing.types";
+import { createScheduler, createWorker } from "tesseract.js";
+import { PDFImage, OCRConfidence, OCRResult, PageRecognition } from "../types/pdf-processing.types";
 import { Logger } from "../utils/error-handling.utils";
-import { cleanBengaliText } from "../utils/text-processing.utils";
+import { buildPagedText, cleanBengaliText } from "../utils/text-processing.utils";
+import { roundToDecimals } from "../utils/math.utils";
+import { OCR_CONFIG } from "../../config/ocr";
 
 export class OCRService {
-  private worker: Tesseract.Worker | null = null;
+  private scheduler: Tesseract.Scheduler | null = null;
+  private initializing: Promise<Tesseract.Scheduler> | null = null;
   private languages: string;
+  private workerCount: number;
 
-  constructor(languages: string = "ben+eng") {
+  constructor(languages: string = "ben+eng", workerCount: number = OCR_CONFIG.workers) {
     this.languages = languages;
+    this.workerCount = Math.max(1, workerCount);
+  }
+
+  getLanguages(): string {
+    return this.languages;
   }
 
   /**
-   * Initialize Tesseract worker with specified languages
+   * Initialize a pool of Tesseract workers with the specified languages. Pages queued
+   * on the scheduler are handed to whichever worker is free.
    */
-  async initializeWorker(): Promise<void> {
-    Logger.info(`🚀 Initializing Tesseract worker with ${this.languages} languages...`);
+  async initializeWorkers(): Promise<Tesseract.Scheduler> {
+    if (this.scheduler) {
+      return this.scheduler;
+    }
+    // Pages recognized concurrently share a single initialization (and its failure)
+    if (!this.initializing) {
+      this.initializing = this.createWorkerPool();
+    }
+    return this.initializing;
+  }
+
+  private async createWorkerPool(): Promise<Tesseract.Scheduler> {
+    Logger.info(`🚀 Initializing ${this.workerCount} Tesseract workers with ${this.languages} languages...`);
+
+    const results = await Promise.allSettled(Array.from({ length: this.workerCount }, () => this.createLanguageWorker()));
+    const workers = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+
+    if (failure) {
+      // Terminate the workers that did start, and let the next call retry the whole pool
+      await Promise.allSettled(workers.map((worker) => worker.terminate()));
+      this.initializing = null;
+      Logger.error("Failed to initialize Tesseract workers:", failure.reason);
+      throw new Error(`Failed to initialize OCR workers: ${(failure.reason as Error).message}`);
+    }
 
+    const scheduler = createScheduler();
+    workers.forEach((worker) => scheduler.addWorker(worker));
+
+    this.scheduler = scheduler;
+    Logger.success(`Tesseract worker pool initialized (${workers.length} workers)`);
+    return scheduler;
+  }
+
+  /**
+   * Create a worker with the OCR languages loaded; a worker that fails to load them is terminated
+   */
+  private async createLanguageWorker(): Promise<Tesseract.Worker> {
+    const worker = await createWorker();
     try {
-      this.worker = await createWorker();
-      await this.worker.loadLanguage(this.languages);
-      await this.worker.initialize(this.languages);
-      Logger.success("Tesseract worker initialized successfully");
+      await worker.loadLanguage(this.languages);
+      await worker.initialize(this.languages);
+      return worker;
     } catch (error) {
-      Logger.error("Failed to initialize Tesseract worker:", error);
-      throw new Error(`Failed to initialize OCR worker: ${(error as Error).message}`);
+      await worker.terminate().catch(() => undefined);
+      throw error;
     }
   }
 
   /**
-   * Extract text from images using Tesseract.js OCR
+   * Extract text from images using Tesseract.js OCR, recognizing pages in parallel
    */
   async extractTextFromImages(images: PDFImage[]): Promise<OCRResult> {
-    Logger.info("🔍 Starting OCR text extraction...");
+    Logger.info(`🔍 Starting OCR text extraction (${images.length} pages, ${this.workerCount} workers)...`);
 
-    if (!this.worker) {
-      await this.initializeWorker();
-    }
+    const recognitions = await Promise.all(images.map((image) => this.recognizePage(image)));
+    return this.assembleResult(recognitions);
+  }
 
-    const pageInfo: Array<{ page: number; text: string }> = [];
-    let combinedText = "";
+  /**
+   * Recognize one page. Failures are logged and come back as an empty page, so one
+   * bad page never aborts the others.
+   */
+  async recognizePage(image: PDFImage): Promise<PageRecognition> {
+    const scheduler = await this.initializeWorkers();
 
     try {
-      for (const image of images) {
-        Logger.info(`🔤 Extracting text from page ${image.page}...`);
-
-        try {
-          const result = await this.worker!.recognize(image.imagePath);
-          const cleanedText = cleanBengaliText(result.data.text);
-
-          if (cleanedText.length > 50) {
-            // Only include pages with meaningful content
-            pageInfo.push({
-              page: image.page,
-              text: cleanedText,
-            });
-            combinedText += cleanedText + "\n\n";
-
-            Logger.success(`Page ${image.page}: ${cleanedText.length} characters extracted`);
-            Logger.debug(`Sample: "${cleanedText.substring(0, 100)}..."`);
-          } else {
-            Logger.warning(`Page ${image.page}: Insufficient text (${cleanedText.length} chars), skipping`);
-          }
-        } catch (pageError) {
-          Logger.error(`Failed to extract text from page ${image.page}:`, pageError);
+      const result = await scheduler.addJob("recognize", image.imagePath);
+      const text = cleanBengaliText(result.data.text);
+      const confidence = this.pageConfidence(result.data);
+      Logger.info(`🔤 Page ${image.page}: ${text.length} characters (confidence ${confidence.mean}, min ${confidence.min})`);
+      return { page: image.page, text, rawText: result.data.text, confidence };
+    } catch (pageError) {
+      Logger.error(`Failed to extract text from page ${image.page}:`, pageError);
+      return { page: image.page, text: "" };
+    }
+  }
+
+  /**
+   * Combine page recognitions, in page order, into the document text. Pages with too
+   * little text to be meaningful are reported as skipped.
+   */
+  assembleResult(recognitions: PageRecognition[]): OCRResult {
+    const pageInfo: OCRResult["pageInfo"] = [];
+    const skippedPages: OCRResult["skippedPages"] = [];
+
+    for (const recognition of [...recognitions].sort((a, b) => a.page - b.page)) {
+      if (recognition.confidence && recognition.text.length > 50) {
+        // Only include pages with meaningful content
+        pageInfo.push({ page: recognition.page, text: recognition.text, confidence: recognition.confidence });
+        Logger.debug(`Page ${recognition.page} sample: "${recognition.text.substring(0, 100)}..."`);
+      } else {
+        skippedPages.push({ page: recognition.page, confidence: recognition.confidence });
+        if (recognition.confidence) {
+          Logger.warning(`Page ${recognition.page}: Insufficient text (${recognition.text.length} chars), skipping`);
         }
       }
-
-      Logger.success(`OCR completed: ${pageInfo.length} pages processed`);
-      return { text: combinedText, pageInfo };
-    } catch (error) {
-      Logger.error("Error during OCR text extraction:", error);
-      throw new Error(`Failed to extract text from images: ${(error as Error).message}`);
     }
+
+    Logger.success(`OCR completed: ${pageInfo.length} pages processed`);
+
+    // Combined text plus each page's character range, so chunks can be attributed to pages exactly
+    const { text, pageSpans } = buildPagedText(pageInfo);
+    return { text, pageInfo, pageSpans, skippedPages };
+  }
+
+  /**
+   * Page confidence from Tesseract: the page mean and the least confident word
+   */
+  private pageConfidence(page: Tesseract.Page): OCRConfidence {
+    const wordConfidences = (page.words || []).filter((word) => word.text.trim()).map((word) => word.confidence);
+    return {
+      mean: roundToDecimals(page.confidence, 1),
+      min: roundToDecimals(wordConfidences.length > 0 ? Math.min(...wordConfidences) : page.confidence, 1),
+    };
   }
 
   /**
-   * Terminate the OCR worker
+   * Terminate all OCR workers
    */
-  async terminateWorker(): Promise<void> {
-    if (this.worker) {
+  async terminateWorkers(): Promise<void> {
+    if (this.scheduler) {
       try {
-        await this.worker.terminate();
-        this.worker = null;
-        Logger.info("🔚 Tesseract worker terminated");
+        await this.scheduler.terminate();
+        this.scheduler = null;
+        this.initializing = null;
+        Logger.info("🔚 Tesseract workers terminated");
       } catch (terminateError) {
-        Logger.warning("Error terminating worker:", terminateError);
+        Logger.warning("Error terminating workers:", terminateError);
       }
     }
   }
@@ -94,12 +161,10 @@ export class OCRService {
    * Extract text from a single image
    */
   async extractTextFromImage(imagePath: string): Promise<string> {
-    if (!this.worker) {
-      await this.initializeWorker();
-    }
+    const scheduler = await this.initializeWorkers();
 
     try {
-      const result = await this.worker!.recognize(imagePath);
+      const result = await scheduler.addJob("recognize", imagePath);
       return cleanBengaliText(result.data.text);
     } catch (error) {
       Logger.error(`Failed to extract text from image ${imagePath}:`, error);
@@ -0,0 +1,122 @@
+import OpenAI from "openai";
+import { EmbeddingProvider } from "../types/embedding.types";
+import { EMBEDDING_BATCH_CONFIG, OPENAI_EMBEDDING_DIMENSIONS } from "../../config/embeddings";
+import { packEmbeddingBatches } from "../utils/embedding-batch.utils";
+import { mapWithConcurrency } from "../utils/concurrency.utils";
+import { withRetry } from "../utils/retry.utils";
+import { Logger } from "../utils/error-handling.utils";
+
+/**
+ * Embeddings from the OpenAI API. Inputs are packed into multi-input requests
+ * within a token/item budget, sent with capped concurrency, and retried on
+ * 429/5xx with exponential backoff honoring Retry-After.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimension: number;
+  private client: OpenAI;
+  private model: string;
+  /** Output size requested from the API, when it differs from the model's native size */
+  private requestDimensions?: number;
+
+  constructor(model: string = "text-embedding-ada-002", dimension?: number, client?: OpenAI, namePrefix: string = "openai") {
+    const nativeDimension = OPENAI_EMBEDDING_DIMENSIONS[model];
+    const knownDimension = dimension ?? nativeDimension;
+    if (!knownDimension) {
+      throw new Error(`Unknown dimension for OpenAI embedding model "${model}". Set EMBEDDING_DIMENSION.`);
+    }
+
+    // Only text-embedding-3 models can shorten their vectors; other known models would
+    // silently return vectors that do not fit an index created with the override
+    if (nativeDimension && dimension !== undefined && dimension !== nativeDimension) {
+      if (!model.startsWith("text-embedding-3")) {
+        throw new Error(`Embedding model "${model}" always returns ${nativeDimension}-dimensional vectors; remove EMBEDDING_DIMENSION=${dimension} or use a text-embedding-3 model`);
+      }
+      if (dimension > nativeDimension) {
+        throw new Error(`EMBEDDING_DIMENSION=${dimension} exceeds the ${nativeDimension} dimensions of "${model}"`);
+      }
+      this.requestDimensions = dimension;
+    }
+
+    // SDK retries are disabled; withRetry handles backoff so the policy is in one place
+    this.client =
+      client ||
+      new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY!,
+        maxRetries: 0,
+      });
+    this.model = model;
+    this.dimension = knownDimension;
+    // Shortened vectors are cached separately from full-size ones
+    this.name = `${namePrefix}/${model}${this.requestDimensions ? `@${this.requestDimensions}` : ""}`;
+  }
+
+  async embed(input: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([input]);
+    return embedding;
+  }
+
+  async embedBatch(inputs: string[]): Promise<number[][]> {
+    if (inputs.length === 0) {
+      return [];
+    }
+
+    const { maxBatchTokens, maxBatchItems, concurrency, maxRetries, baseDelayMs, maxDelayMs } = EMBEDDING_BATCH_CONFIG;
+    const batches = packEmbeddingBatches(inputs, maxBatchTokens, maxBatchItems);
+    const embeddings = new Array<number[]>(inputs.length);
+    let completed = 0;
+
+    if (batches.length > 1) {
+      Logger.info(`Embedding ${inputs.length} inputs in ${batches.length} requests (concurrency ${concurrency})`);
+    }
+
+    await mapWithConcurrency(batches, concurrency, async (batch, batchIndex) => {
+      const batchEmbeddings = await withRetry(() => this.requestEmbeddings(batch.map((i) => inputs[i])), {
+        maxRetries,
+        baseDelayMs,
+        maxDelayMs,
+        label: `Embedding request ${batchIndex + 1}/${batches.length}`,
+      });
+
+      batch.forEach((inputIndex, position) => {
+        embeddings[inputIndex] = batchEmbeddings[position];
+      });
+
+      completed += batch.length;
+      if (batches.length > 1) {
+        Logger.progress(completed, inputs.length, "embeddings created");
+      }
+    });
+
+    return embeddings;
+  }
+
+  /**
+   * Single multi-input embeddings API call
+   */
+  private async requestEmbeddings(inputs: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: inputs,
+      ...(this.requestDimensions ? { dimensions: this.requestDimensions } : {}),
+    });
+
+    // The API may return items out of order; restore input order by index
+    return response.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
+
+/**
+ * Embeddings from a self-hosted server exposing the OpenAI embeddings API
+ * (e.g. vLLM, Ollama, text-embeddings-inference)
+ */
+export class OpenAICompatibleEmbeddingProvider extends OpenAIEmbeddingProvider {
+  constructor(baseURL: string, model: string, dimension: number, apiKey?: string) {
+    const client = new OpenAI({
+      apiKey: apiKey || process.env.OPENAI_API_KEY || "not-needed",
+      baseURL,
+      maxRetries: 0,
+    });
+    super(model, dimension, client, "openai-compatible");
+  }
+}
@@ -1,4 +1,7 @@
 import OpenAI from "openai";
+import { EmbeddingProvider } from "../types/embedding.types";
+import { createEmbeddingProvider } from "./embedding-provider.factory";
+import { EmbeddingCacheService, getEmbeddingCache } from "./embedding-cache.service";
 
 export interface ChatMessage {
   role: "system" | "user" | "assistant";
@@ -6,21 +9,38 @@ export interface ChatMessage {
 }
 
 export class OpenAIService {
-  private openai: OpenAI;
+  private client: OpenAI | null = null;
+  private embeddingProvider: EmbeddingProvider;
+  private embeddingCache: EmbeddingCacheService;
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY!,
-    });
+  constructor(embeddingProvider: EmbeddingProvider = createEmbeddingProvider(), embeddingCache: EmbeddingCacheService = getEmbeddingCache()) {
+    this.embeddingProvider = embeddingProvider;
+    this.embeddingCache = embeddingCache;
+  }
+
+  /**
+   * Chat client, created on first use so offline embedding setups never need an API key
+   */
+  private get openai(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY!,
+      });
+    }
+    return this.client;
+  }
+
+  /**
+   * Active embedding provider (name and dimension are needed for index creation)
+   */
+  getEmbeddingProvider(): EmbeddingProvider {
+    return this.embeddingProvider;
   }
 
   async createEmbedding(input: string): Promise<number[]> {
     try {
-      const response = await this.openai.embeddings.create({
-        model: "text-embedding-ada-002",
-        input,
-      });
-      return response.data[0].embedding;
+      const [embedding] = await this.embedWithCache([input]);
+      return embedding;
     } catch (error) {
       console.error("Error creating embedding:", error);
       throw new Error(`Failed to create embedding: ${(error as Error).message}`);
@@ -29,23 +49,41 @@ export class OpenAIService {
 
   async createEmbeddings(inputs: string[]): Promise<number[][]> {
     try {
-      const embeddings = await Promise.all(
-        inputs.map(async (input, index) => {
-          console.log(`Creating embedding ${index + 1}/${inputs.length}`);
-          const response = await this.openai.embeddings.create({
-            model: "text-embedding-ada-002",
-            input,
-          });
-          return response.data[0].embedding;
-        })
-      );
-      return embeddings;
+      console.log(`Creating ${inputs.length} embeddings with ${this.embeddingProvider.name}`);
+      return await this.embedWithCache(inputs);
     } catch (error) {
       console.error("Error creating embeddings:", error);
       throw new Error(`Failed to create embeddings: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Serve embeddings from the cache and only send misses to the provider
+   */
+  private async embedWithCache(inputs: string[]): Promise<number[][]> {
+    const providerName = this.embeddingProvider.name;
+    const cached = this.embeddingCache.getMany(providerName, inputs);
+    const missIndices = cached.map((embedding, index) => (embedding ? -1 : index)).filter((index) => index >= 0);
+
+    if (missIndices.length === 0) {
+      return cached as number[][];
+    }
+
+    if (missIndices.length < inputs.length) {
+      console.log(`Embedding cache: ${inputs.length - missIndices.length} hits, ${missIndices.length} misses`);
+    }
+
+    const missInputs = missIndices.map((index) => inputs[index]);
+    const fresh = await this.embeddingProvider.embedBatch(missInputs);
+    this.embeddingCache.setMany(providerName, missInputs, fresh);
+
+    const embeddings = [...cached];
+    missIndices.forEach((inputIndex, position) => {
+      embeddings[inputIndex] = fresh[position];
+    });
+    return embeddings as number[][];
+  }
+
   async createChatCompletion(
     messages: ChatMessage[],
     options: {
@@ -53,10 +91,11 @@ export class OpenAIService {
       temperature?: number;
       maxTokens?: number;
       stream?: boolean;
+      responseFormat?: "text" | "json_object";
     } = {}
   ): Promise<OpenAI.Chat.Completions.ChatCompletion | AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>> {
     try {
-      const { model = "gpt-4o-mini", temperature = 0.7, maxTokens = 1000, stream = false } = options;
+      const { model = "gpt-4o-mini", temperature = 0.7, maxTokens = 1000, stream = false, responseFormat = "text" } = options;
 
       return await this.openai.chat.completions.create({
         model,
@@ -64,6 +103,7 @@ export class OpenAIService {
         temperature,
         max_tokens: maxTokens,
         stream,
+        response_format: { type: responseFormat },
       });
     } catch (error) {
       console.error("Error creating chat completion:", error);
@@ -1,8 +1,12 @@
 import { fromPath } from "pdf2pic";
 import { existsSync, mkdirSync, rmSync } from "fs";
+import { readFile } from "fs/promises";
 import { join } from "path";
+import pdfParse from "pdf-parse";
 import { PageRange, PDFImage } from "../types/pdf-processing.types";
 import { Logger } from "../utils/error-handling.utils";
+import { mapWithConcurrency } from "../utils/concurrency.utils";
+import { OCR_CONFIG } from "../../config/ocr";
 
 export class PDFConverterService {
   private tempDir: string;
@@ -12,9 +16,11 @@ export class PDFConverterService {
   }
 
   /**
-   * Convert PDF pages to images using pdf2pic
+   * Convert PDF pages to images using pdf2pic, several pages at a time.
+   * `onImage` is called as soon as each page is ready, so OCR can start before
+   * the whole document is converted.
    */
-  async convertPdfToImages(pdfPath: string, pageRanges?: PageRange[]): Promise<PDFImage[]> {
+  async convertPdfToImages(pdfPath: string, pageRanges?: PageRange[], onImage?: (image: PDFImage) => void): Promise<PDFImage[]> {
     Logger.info("📄 Converting PDF pages to images...");
 
     // Clean up and create temp directory
@@ -32,42 +38,35 @@ export class PDFConverterService {
     const images: PDFImage[] = [];
 
     try {
+      const pageNumbers: number[] = [];
       if (!pageRanges || pageRanges.length === 0) {
         // Convert all pages
-        Logger.info("🔄 Converting all PDF pages...");
-        const result = await convert.bulk(-1); // Convert all pages
-
-        if (Array.isArray(result)) {
-          for (const pageResult of result) {
-            if (pageResult.path) {
-              images.push({
-                page: pageResult.page || 1,
-                imagePath: pageResult.path,
-              });
-            }
-          }
-        }
+        const pageCount = await this.getPageCount(pdfPath);
+        Logger.info(`🔄 Converting all ${pageCount} PDF pages...`);
+        pageNumbers.push(...Array.from({ length: pageCount }, (_, index) => index + 1));
       } else {
         // Convert specific page ranges
         for (const range of pageRanges) {
           Logger.info(`🔄 Converting pages ${range.start}-${range.end}${range.description ? ` (${range.description})` : ""}`);
-
           for (let pageNum = range.start; pageNum <= range.end; pageNum++) {
-            try {
-              const pageResult = await convert(pageNum);
-              if (pageResult.path) {
-                images.push({
-                  page: pageNum,
-                  imagePath: pageResult.path,
-                });
-              }
-            } catch (pageError) {
-              Logger.warning(`Failed to convert page ${pageNum}:`, pageError);
-            }
+            pageNumbers.push(pageNum);
           }
         }
       }
 
+      await mapWithConcurrency(pageNumbers, OCR_CONFIG.convertConcurrency, async (pageNum) => {
+        try {
+          const pageResult = await convert(pageNum);
+          if (pageResult.path) {
+            const image = { page: pageNum, imagePath: pageResult.path };
+            images.push(image);
+            onImage?.(image);
+          }
+        } catch (pageError) {
+          Logger.warning(`Failed to convert page ${pageNum}:`, pageError);
+        }
+      });
+
       Logger.success(`Converted ${images.length} pages to images`);
       return images.sort((a, b) => a.page - b.page);
     } catch (error) {
@@ -76,6 +75,14 @@ export class PDFConverterService {
     }
   }
 
+  /**
+   * Number of pages in the PDF (only the first page's text is read)
+   */
+  async getPageCount(pdfPath: string): Promise<number> {
+    const { numpages } = await pdfParse(await readFile(pdfPath), { max: 1 });
+    return numpages;
+  }
+
   /**
    * Clean up temporary images directory
    */
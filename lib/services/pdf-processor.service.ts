@@ -1,27 +1,46 @@
 import { existsSync } from "fs";
-import { join } from "path";
-import { DocumentChunk, PDFProcessingOptions } from "../types/pdf-processing.types";
+import { basename, join } from "path";
+import { DocumentChunk, ExtractedPage, ExtractionMethod, IngestionReport, OCRResult, PageRange, PageRecognition, PDFProcessingOptions, TextLayerIssue } from "../types/pdf-processing.types";
 import { PDFConverterService } from "./pdf-converter.service";
+import { PDFTextLayerService } from "./pdf-text-layer.service";
+import { ImagePreprocessingService } from "./image-preprocessing.service";
 import { OCRService } from "./ocr.service";
+import { OCRCacheService, OCRCacheVariant, getOCRCache } from "./ocr-cache.service";
 import { TextChunkingService } from "./text-chunking.service";
+import { MCQExtractionService } from "./mcq-extraction.service";
+import { buildPagedText, cleanBengaliText, maskRanges } from "../utils/text-processing.utils";
+import { assessTextLayer } from "../utils/text-quality.utils";
+import { truncateGraphemes } from "../utils/grapheme.utils";
 import { Logger } from "../utils/error-handling.utils";
+import { roundToDecimals } from "../utils/math.utils";
+import { CHUNKING_CONFIG } from "../../config/chunking";
+import { OCR_CONFIG } from "../../config/ocr";
 
 export class PDFProcessorService {
   private pdfConverter: PDFConverterService;
+  private textLayer: PDFTextLayerService;
+  private imagePreprocessor: ImagePreprocessingService;
   private ocrService: OCRService;
+  private ocrCache: OCRCacheService;
   private textChunker: TextChunkingService;
+  private mcqExtractor: MCQExtractionService;
+  private lastReport: IngestionReport | null = null;
 
   constructor() {
     this.pdfConverter = new PDFConverterService();
+    this.textLayer = new PDFTextLayerService();
+    this.imagePreprocessor = new ImagePreprocessingService();
     this.ocrService = new OCRService();
+    this.ocrCache = getOCRCache();
     this.textChunker = new TextChunkingService();
+    this.mcqExtractor = new MCQExtractionService();
   }
 
   /**
-   * Process PDF file with OCR and return document chunks
+   * Process PDF file (embedded text layer, OCR where needed) and return document chunks
    */
   async processPDF(pdfPath: string, options: PDFProcessingOptions = {}): Promise<DocumentChunk[]> {
-    Logger.info("🚀 Starting PDF processing with OCR...");
+    Logger.info("🚀 Starting PDF processing...");
 
     // Validate PDF file exists
     if (!existsSync(pdfPath)) {
@@ -31,23 +50,11 @@ export class PDFProcessorService {
     Logger.success(`PDF file found: ${pdfPath}`);
 
     try {
-      // Step 1: Convert PDF pages to images
-      Logger.info("📄 Step 1: Converting PDF to images...");
-      const images = await this.pdfConverter.convertPdfToImages(pdfPath, options.pageRanges);
-
-      if (images.length === 0) {
-        throw new Error("No images were generated from the PDF");
-      }
-
-      // Step 2: Extract text using OCR
-      Logger.info("🔤 Step 2: Extracting text using OCR...");
-
-      // Initialize OCR service with specified languages
-      if (options.ocrLanguages) {
-        this.ocrService = new OCRService(options.ocrLanguages);
-      }
-
-      const { text, pageInfo } = await this.ocrService.extractTextFromImages(images);
+      // Step 1: Extract page text, from the text layer where usable and by OCR otherwise
+      Logger.info("📄 Step 1: Extracting page text...");
+      const { pages, skippedPages, cachedPages } = await this.extractPages(pdfPath, options);
+      const { text, pageSpans } = buildPagedText(pages);
+      this.lastReport = this.buildReport(pages, skippedPages, cachedPages);
 
       if (!text || text.length < 100) {
         throw new Error("Insufficient text extracted from PDF");
@@ -55,15 +62,24 @@ export class PDFProcessorService {
 
       Logger.info(`📄 Total text extracted: ${text.length} characters`);
 
+      // Step 2: Parse multiple-choice questions; their text is left out of prose chunks
+      const mcq = options.extractMCQs !== false ? this.mcqExtractor.extract(text, pageSpans) : { records: [], consumedRanges: [] };
+
       // Step 3: Chunk the text
       Logger.info("✂️ Step 3: Chunking text...");
-      const chunks = this.textChunker.chunkTextWithPages(text, pageInfo, options.chunkingOptions);
+      const textChunks = this.textChunker.chunkTextWithPages(maskRanges(text, mcq.consumedRanges), pageSpans, options.chunkingOptions);
+      const nextChunkIndex = textChunks.reduce((max, chunk) => Math.max(max, chunk.metadata.chunk_index + 1), 0);
+      const chunks = [...textChunks, ...this.mcqExtractor.toDocumentChunks(mcq.records, nextChunkIndex)];
+      if (options.pageRanges) {
+        this.assignChapters(chunks, options.pageRanges);
+      }
+      this.assignPageProvenance(chunks, pages);
 
-      Logger.success(`🔢 Created ${chunks.length} chunks`);
+      Logger.success(`🔢 Created ${chunks.length} chunks (${textChunks.length} text, ${mcq.records.length} MCQ)`);
 
       // Log sample chunk for verification
       if (chunks.length > 0) {
-        Logger.info(`📋 Sample chunk content: "${chunks[0].content.substring(0, 200)}..."`);
+        Logger.info(`📋 Sample chunk content: "${truncateGraphemes(chunks[0].content, 200)}..."`);
       }
 
       return chunks;
@@ -76,6 +92,13 @@ export class PDFProcessorService {
     }
   }
 
+  /**
+   * Page-level report of the last processPDF run (extraction methods, low-confidence and unreadable pages)
+   */
+  getLastReport(): IngestionReport | null {
+    return this.lastReport;
+  }
+
   /**
    * Process HSC26 PDF specifically (maintains backward compatibility)
    */
@@ -85,24 +108,254 @@ export class PDFProcessorService {
     // Set default options for HSC26 processing
     const hsc26Options: PDFProcessingOptions = {
       ocrLanguages: "ben+eng",
-      chunkingOptions: {
-        chunkSize: 1000,
-        overlap: 200,
-        minChunkSize: 50,
-      },
+      extractMCQs: true,
+      chunkingOptions: { ...CHUNKING_CONFIG },
       ...options,
     };
 
     return this.processPDF(pdfPath, hsc26Options);
   }
 
+  /**
+   * Get the text of every requested page. The embedded text layer is used where it passes
+   * the quality checks; the remaining pages (all of them when useTextLayer is false, or the
+   * PDF is a scan) are read from the OCR cache, or rendered and OCR'd.
+   */
+  private async extractPages(pdfPath: string, options: PDFProcessingOptions): Promise<{ pages: ExtractedPage[]; skippedPages: OCRResult["skippedPages"]; cachedPages: number }> {
+    const pages: ExtractedPage[] = [];
+    const skippedPages: OCRResult["skippedPages"] = [];
+    let ocrRanges = options.pageRanges;
+
+    if (options.useTextLayer !== false) {
+      try {
+        const ranges = options.pageRanges && options.pageRanges.length > 0 ? options.pageRanges : undefined;
+        const lastPage = ranges ? Math.max(...ranges.map((range) => range.end)) : undefined;
+        const layerPages = (await this.textLayer.extractPages(pdfPath, lastPage)).filter(({ page }) => !ranges || ranges.some((range) => page >= range.start && page <= range.end));
+
+        const rejected: number[] = [];
+        const issues = new Map<TextLayerIssue, number>();
+        for (const layerPage of layerPages) {
+          const text = cleanBengaliText(layerPage.text);
+          const assessment = assessTextLayer(text);
+          if (assessment.usable) {
+            pages.push({ page: layerPage.page, text, method: "text-layer" });
+          } else {
+            rejected.push(layerPage.page);
+            issues.set(assessment.issue!, (issues.get(assessment.issue!) || 0) + 1);
+          }
+        }
+
+        const issueSummary = Array.from(issues.entries())
+          .map(([issue, count]) => `${issue} ×${count}`)
+          .join(", ");
+        Logger.info(`📑 Text layer usable for ${pages.length}/${layerPages.length} pages${issueSummary ? ` (rejected: ${issueSummary})` : ""}`);
+
+        if (pages.length > 0 && rejected.length === 0) {
+          return { pages, skippedPages, cachedPages: 0 };
+        }
+        if (pages.length > 0) {
+          ocrRanges = this.toPageRanges(rejected);
+        }
+      } catch (error) {
+        Logger.warning("Text layer unavailable, using OCR for all pages:", error);
+      }
+    }
+
+    // Initialize OCR service with specified languages
+    if (options.ocrLanguages) {
+      this.ocrService = new OCRService(options.ocrLanguages);
+    }
+
+    const cache = options.useOCRCache !== false && this.ocrCache.isEnabled() ? await this.readOCRCache(pdfPath, ocrRanges) : null;
+    const cachedRecognitions = cache ? cache.recognitions : [];
+    if (cache && cache.missingPages.length === 0) {
+      Logger.success(`All ${cachedRecognitions.length} OCR pages served from the OCR cache`);
+    } else {
+      if (cachedRecognitions.length > 0) {
+        Logger.info(`💾 ${cachedRecognitions.length} OCR pages served from the OCR cache, ${cache!.missingPages.length} left to OCR`);
+        ocrRanges = this.toPageRanges(cache!.missingPages);
+      }
+      Logger.info("🔤 Rendering and OCR'ing pages without a usable text layer...");
+    }
+
+    // Pipeline: each page is cleaned up and queued for OCR as soon as it has been rendered
+    const recognitions: Promise<PageRecognition>[] = [];
+    const images =
+      cache && cache.missingPages.length === 0
+        ? []
+        : await this.pdfConverter.convertPdfToImages(pdfPath, ocrRanges, (image) => {
+            const recognition = this.imagePreprocessor
+              .preprocess(image)
+              .then((prepared) => this.ocrService.recognizePage(prepared))
+              .then((result) => {
+                if (cache) {
+                  this.ocrCache.set(cache.pdfHash, result, cache.variant, basename(pdfPath));
+                }
+                return result;
+              });
+            // Awaited below; this only stops a failed worker start from counting as unhandled meanwhile
+            recognition.catch(() => undefined);
+            recognitions.push(recognition);
+          });
+
+    if (images.length === 0 && cachedRecognitions.length === 0 && pages.length === 0) {
+      throw new Error("No images were generated from the PDF");
+    }
+
+    if (images.length > 0 || cachedRecognitions.length > 0) {
+      const ocr = this.ocrService.assembleResult([...cachedRecognitions, ...(await Promise.all(recognitions))]);
+      pages.push(...ocr.pageInfo.map((page) => ({ ...page, method: "ocr" as const })));
+      skippedPages.push(...ocr.skippedPages);
+    }
+
+    return { pages: pages.sort((a, b) => a.page - b.page), skippedPages, cachedPages: cachedRecognitions.length };
+  }
+
+  /**
+   * Look up the pages to OCR in the OCR cache. Entries only match when the PDF content,
+   * OCR languages and preprocessing settings are all unchanged.
+   */
+  private async readOCRCache(
+    pdfPath: string,
+    pageRanges?: PageRange[]
+  ): Promise<{ pdfHash: string; variant: OCRCacheVariant; recognitions: PageRecognition[]; missingPages: number[] } | null> {
+    try {
+      const pdfHash = await this.ocrCache.hashPdf(pdfPath);
+      const variant: OCRCacheVariant = { languages: this.ocrService.getLanguages(), preprocessing: this.imagePreprocessor.getSettings() };
+
+      const pageNumbers: number[] = [];
+      if (pageRanges && pageRanges.length > 0) {
+        for (const range of pageRanges) {
+          for (let page = range.start; page <= range.end; page++) {
+            pageNumbers.push(page);
+          }
+        }
+      } else {
+        const pageCount = await this.pdfConverter.getPageCount(pdfPath);
+        pageNumbers.push(...Array.from({ length: pageCount }, (_, index) => index + 1));
+      }
+
+      const recognitions: PageRecognition[] = [];
+      const missingPages: number[] = [];
+      for (const page of Array.from(new Set(pageNumbers)).sort((a, b) => a - b)) {
+        const cached = this.ocrCache.get(pdfHash, page, variant);
+        if (cached) {
+          recognitions.push(cached);
+        } else {
+          missingPages.push(page);
+        }
+      }
+
+      return { pdfHash, variant, recognitions, missingPages };
+    } catch (error) {
+      Logger.warning("OCR cache unavailable, OCR'ing all pages:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Collapse sorted page numbers into contiguous ranges
+   */
+  private toPageRanges(pageNumbers: number[]): PageRange[] {
+    const ranges: PageRange[] = [];
+    for (const page of pageNumbers) {
+      const last = ranges[ranges.length - 1];
+      if (last && page === last.end + 1) {
+        last.end = page;
+      } else {
+        ranges.push({ start: page, end: page });
+      }
+    }
+    return ranges;
+  }
+
+  /**
+   * Record how the text of each chunk's pages was extracted and, for OCR'd pages,
+   * how confident Tesseract was
+   */
+  private assignPageProvenance(chunks: DocumentChunk[], pages: ExtractedPage[]): void {
+    const pagesByNumber = new Map(pages.map((page) => [page.page, page]));
+    for (const chunk of chunks) {
+      const { page_start: start, page_end: end } = chunk.metadata;
+      if (start === undefined) continue;
+
+      const chunkPages: ExtractedPage[] = [];
+      for (let page = start; page <= (end ?? start); page++) {
+        const extracted = pagesByNumber.get(page);
+        if (extracted) chunkPages.push(extracted);
+      }
+
+      const methods = new Set<ExtractionMethod>(chunkPages.map((page) => page.method));
+      if (methods.size > 0) {
+        chunk.metadata.extraction_method = methods.size === 1 ? Array.from(methods)[0] : "mixed";
+      }
+
+      const confidences = chunkPages.flatMap((page) => (page.confidence ? [page.confidence] : []));
+      if (confidences.length > 0) {
+        chunk.metadata.ocr_confidence = roundToDecimals(confidences.reduce((sum, confidence) => sum + confidence.mean, 0) / confidences.length, 1);
+        chunk.metadata.ocr_min_confidence = Math.min(...confidences.map((confidence) => confidence.min));
+        if (confidences.some((confidence) => confidence.mean < OCR_CONFIG.lowConfidenceThreshold)) {
+          chunk.metadata.low_confidence = true;
+        }
+      }
+    }
+  }
+
+  /**
+   * Summarize extraction per page and log the pages the system cannot read reliably
+   */
+  private buildReport(pages: ExtractedPage[], skippedPages: OCRResult["skippedPages"], cachedPages: number): IngestionReport {
+    const threshold = OCR_CONFIG.lowConfidenceThreshold;
+    const ocrPages = pages.filter((page) => page.confidence);
+    const lowConfidencePages = ocrPages
+      .filter((page) => page.confidence!.mean < threshold)
+      .map((page) => ({ page: page.page, ...page.confidence! }))
+      .sort((a, b) => a.mean - b.mean);
+
+    const report: IngestionReport = {
+      pagesProcessed: pages.length + skippedPages.length,
+      pagesByMethod: {
+        "text-layer": pages.filter((page) => page.method === "text-layer").length,
+        ocr: pages.filter((page) => page.method === "ocr").length,
+      },
+      cachedOCRPages: cachedPages,
+      confidenceThreshold: threshold,
+      meanConfidence: ocrPages.length > 0 ? roundToDecimals(ocrPages.reduce((sum, page) => sum + page.confidence!.mean, 0) / ocrPages.length, 1) : undefined,
+      lowConfidencePages,
+      unreadablePages: skippedPages,
+    };
+
+    if (lowConfidencePages.length > 0) {
+      Logger.warning(`${lowConfidencePages.length} pages below OCR confidence ${threshold}: ${lowConfidencePages.map((page) => `p${page.page} (${page.mean})`).join(", ")}`);
+    }
+    if (skippedPages.length > 0) {
+      Logger.warning(`${skippedPages.length} pages yielded no usable text: ${skippedPages.map((page) => page.page).join(", ")}`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Tag chunks with the description of the page range they start in (e.g. a story title),
+   * so search can be scoped to one chapter
+   */
+  private assignChapters(chunks: DocumentChunk[], pageRanges: PageRange[]): void {
+    for (const chunk of chunks) {
+      const page = chunk.metadata.page_start;
+      const range = page !== undefined ? pageRanges.find((candidate) => candidate.description && page >= candidate.start && page <= candidate.end) : undefined;
+      if (range) {
+        chunk.metadata.chapter = range.description;
+      }
+    }
+  }
+
   /**
    * Cleanup resources and temporary files
    */
   private async cleanup(): Promise<void> {
     try {
-      // Terminate OCR worker
-      await this.ocrService.terminateWorker();
+      // Terminate OCR workers
+      await this.ocrService.terminateWorkers();
 
       // Clean up temporary images
       this.pdfConverter.cleanupTempImages();
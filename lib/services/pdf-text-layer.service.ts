@@ -0,0 +1,60 @@
+import { readFile } from "fs/promises";
+import pdfParse from "pdf-parse";
+import { Logger } from "../utils/error-handling.utils";
+
+interface TextContentItem {
+  str: string;
+  transform: number[];
+}
+
+interface PDFPageProxy {
+  pageNumber: number;
+  getTextContent(options?: { normalizeWhitespace?: boolean; disableCombineTextItems?: boolean }): Promise<{ items: TextContentItem[] }>;
+}
+
+export class PDFTextLayerService {
+  /**
+   * Read the embedded text of each page, without rendering. Pages are numbered from 1;
+   * pages without a text layer come back as empty strings.
+   */
+  async extractPages(pdfPath: string, lastPage?: number): Promise<Array<{ page: number; text: string }>> {
+    Logger.info("📑 Reading embedded PDF text layer...");
+
+    try {
+      const pages: Array<{ page: number; text: string }> = [];
+      const data = await readFile(pdfPath);
+
+      const result = await pdfParse(data, {
+        max: lastPage || 0,
+        pagerender: async (pageData: PDFPageProxy) => {
+          const text = await this.renderPageText(pageData);
+          pages.push({ page: pageData.pageNumber, text });
+          return text;
+        },
+      });
+
+      Logger.success(`Text layer read: ${pages.length} of ${result.numpages} pages`);
+      return pages.sort((a, b) => a.page - b.page);
+    } catch (error) {
+      Logger.error("Error reading PDF text layer:", error);
+      throw new Error(`Failed to read PDF text layer: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Join text items into lines, starting a new line whenever the baseline changes
+   */
+  private async renderPageText(pageData: PDFPageProxy): Promise<string> {
+    const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+
+    let text = "";
+    let lastY: number | undefined;
+    for (const item of content.items) {
+      const y = item.transform[5];
+      text += lastY === undefined || y === lastY ? item.str : "\n" + item.str;
+      lastY = y;
+    }
+
+    return text;
+  }
+}
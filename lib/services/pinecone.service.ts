@@ -1,27 +1,13 @@
 import { Pinecone } from "@pinecone-database/pinecone";
+import { IndexStats, MetadataFilter, VectorMetadata, VectorQueryResult, VectorRecord, VectorStore } from "../types/vector-store.types";
+import { buildVectorQueryResult } from "../utils/vector-query.utils";
 
-export interface PineconeQueryResult {
-  contexts: string[];
-  searchScores: number[];
-  retrievalMetrics: {
-    totalRetrieved: number;
-    aboveThreshold: number;
-    averageSimilarity: number;
-  };
-}
-
-export interface PineconeVector {
-  id: string;
-  values: number[];
-  metadata: {
-    content: string;
-    source: string;
-    chunk_index: number;
-    char_count: number;
-  };
-}
+// Kept for backward compatibility with code written before the VectorStore abstraction
+export type PineconeQueryResult = VectorQueryResult;
+export type PineconeVector = VectorRecord;
 
-export class PineconeService {
+export class PineconeService implements VectorStore {
+  readonly provider = "pinecone" as const;
   private pinecone: Pinecone;
   private indexName: string;
 
@@ -42,7 +28,66 @@ export class PineconeService {
     }
   }
 
-  async queryVectors(vector: number[], topK: number = 10, threshold: number = 0.1): Promise<PineconeQueryResult> {
+  /**
+   * Create a serverless cosine index and wait until it is ready
+   */
+  async createIndex(dimension: number): Promise<void> {
+    try {
+      await this.pinecone.createIndex({
+        name: this.indexName,
+        dimension,
+        metric: "cosine",
+        spec: {
+          serverless: {
+            cloud: "aws",
+            region: "us-east-1",
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Error creating Pinecone index:", error);
+      throw new Error(`Failed to create Pinecone index: ${(error as Error).message}`);
+    }
+
+    console.log(`⏳ Waiting for index "${this.indexName}" to be ready...`);
+    const isReady = await this.waitFor(
+      async () => {
+        const indexInfo = await this.pinecone.describeIndex(this.indexName);
+        return indexInfo.status?.ready === true;
+      },
+      10000,
+      60 // Max 60 attempts (10 minutes)
+    );
+
+    if (!isReady) {
+      throw new Error("Index creation timed out");
+    }
+  }
+
+  /**
+   * Delete the index and wait until it no longer appears in the index list
+   */
+  async deleteIndex(): Promise<void> {
+    try {
+      await this.pinecone.deleteIndex(this.indexName);
+    } catch (error) {
+      console.error("Error deleting Pinecone index:", error);
+      throw new Error(`Failed to delete Pinecone index: ${(error as Error).message}`);
+    }
+
+    console.log("⏳ Waiting for index deletion to complete...");
+    const deleted = await this.waitFor(
+      async () => !(await this.checkIndexExists()),
+      10000,
+      30 // Max 30 attempts (5 minutes)
+    );
+
+    if (!deleted) {
+      throw new Error("Index deletion timed out");
+    }
+  }
+
+  async queryVectors(vector: number[], topK: number = 10, threshold: number = 0.1, filter?: MetadataFilter): Promise<VectorQueryResult> {
     try {
       const index = this.pinecone.index(this.indexName);
 
@@ -50,40 +95,46 @@ export class PineconeService {
         vector,
         topK,
         includeMetadata: true,
+        filter: filter ? this.toPineconeFilter(filter) : undefined,
       });
 
-      const allScores = searchResults.matches?.map((m) => m.score || 0) || [];
-
-      // Extract contexts above threshold
-      const contexts =
-        searchResults.matches
-          ?.filter((match) => match.score && match.score > threshold)
-          .map((match) => match.metadata?.content as string)
-          .filter((content) => content && content.length > 0) || [];
-
-      const relevantScores = searchResults.matches?.filter((match) => match.score && match.score > threshold).map((match) => match.score || 0) || [];
-
-      // Calculate retrieval metrics
-      const totalRetrieved = searchResults.matches?.length || 0;
-      const aboveThreshold = contexts.length;
-      const averageSimilarity = allScores.length > 0 ? allScores.reduce((sum, score) => sum + score, 0) / allScores.length : 0;
-
-      return {
-        contexts,
-        searchScores: relevantScores,
-        retrievalMetrics: {
-          totalRetrieved,
-          aboveThreshold,
-          averageSimilarity: Math.round(averageSimilarity * 100) / 100,
-        },
-      };
+      const matches =
+        searchResults.matches?.map((match) => ({
+          id: match.id,
+          score: match.score || 0,
+          metadata: match.metadata as VectorMetadata | undefined,
+        })) || [];
+
+      return buildVectorQueryResult(matches, threshold);
     } catch (error) {
       console.error("Error querying Pinecone:", error);
       throw new Error(`Failed to query Pinecone: ${(error as Error).message}`);
     }
   }
 
-  async upsertVectors(vectors: PineconeVector[]): Promise<void> {
+  async fetchVectors(ids: string[]): Promise<VectorRecord[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    try {
+      const index = this.pinecone.index(this.indexName);
+      const response = await index.fetch(ids);
+
+      return Object.values(response.records)
+        .filter((record) => record.metadata)
+        .map((record) => ({
+          id: record.id,
+          values: record.values || [],
+          metadata: record.metadata as VectorMetadata,
+        }));
+    } catch (error) {
+      console.error("Error fetching from Pinecone:", error);
+      throw new Error(`Failed to fetch from Pinecone: ${(error as Error).message}`);
+    }
+  }
+
+  async upsertVectors(vectors: VectorRecord[]): Promise<void> {
     try {
       const index = this.pinecone.index(this.indexName);
       await index.upsert(vectors);
@@ -93,11 +144,7 @@ export class PineconeService {
     }
   }
 
-  async getIndexStats(): Promise<{
-    totalRecordCount?: number;
-    dimension?: number;
-    [key: string]: unknown;
-  }> {
+  async getIndexStats(): Promise<IndexStats> {
     try {
       const index = this.pinecone.index(this.indexName);
       return await index.describeIndexStats();
@@ -110,4 +157,38 @@ export class PineconeService {
   getIndexName(): string {
     return this.indexName;
   }
+
+  /**
+   * Translate a metadata filter into Pinecone's filter syntax; page bounds select overlapping chunks
+   */
+  private toPineconeFilter(filter: MetadataFilter): object | undefined {
+    const conditions: object[] = [];
+    if (filter.source !== undefined) conditions.push({ source: { $eq: filter.source } });
+    if (filter.chapter !== undefined) conditions.push({ chapter: { $eq: filter.chapter } });
+    if (filter.section_type !== undefined) conditions.push({ section_type: { $eq: filter.section_type } });
+    if (filter.section_title !== undefined) conditions.push({ section_title: { $eq: filter.section_title } });
+    // Chunks ingested before MCQ extraction have no doc_type and count as text
+    if (filter.doc_type === "mcq") conditions.push({ doc_type: { $eq: "mcq" } });
+    if (filter.doc_type === "text") conditions.push({ doc_type: { $ne: "mcq" } });
+    if (filter.page_start !== undefined) conditions.push({ page_end: { $gte: filter.page_start } });
+    if (filter.page_end !== undefined) conditions.push({ page_start: { $lte: filter.page_end } });
+    return conditions.length > 0 ? { $and: conditions } : undefined;
+  }
+
+  /**
+   * Poll a condition until it holds or the attempt budget runs out
+   */
+  private async waitFor(condition: () => Promise<boolean>, intervalMs: number, maxAttempts: number): Promise<boolean> {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      try {
+        if (await condition()) {
+          return true;
+        }
+      } catch {
+        // Transient errors while the index is changing state are expected; keep polling
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+    return false;
+  }
 }
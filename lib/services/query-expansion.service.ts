@@ -0,0 +1,114 @@
+import OpenAI from "openai";
+import { OpenAIService } from "./openai.service";
+import { QueryExpansionMode, QueryVariant } from "../types/retrieval.types";
+import { Logger } from "../utils/error-handling.utils";
+
+/**
+ * Generates alternative query formulations for hard or vaguely worded questions:
+ * paraphrases (multi-query), a hypothetical answer passage (HyDE) and a Bengali
+ * translation of English questions (cross-lingual retrieval)
+ */
+export class QueryExpansionService {
+  private openaiService: OpenAIService;
+  private paraphraseCount: number;
+
+  constructor(openaiService: OpenAIService = new OpenAIService(), paraphraseCount: number = 3) {
+    this.openaiService = openaiService;
+    this.paraphraseCount = paraphraseCount;
+  }
+
+  /**
+   * Build the list of query variants for a mode; the original query is always first
+   */
+  async expandQuery(query: string, mode: QueryExpansionMode): Promise<QueryVariant[]> {
+    const variants: QueryVariant[] = [{ label: "original", text: query }];
+
+    const [paraphrases, hypotheticalAnswer] = await Promise.all([
+      mode === "multi-query" || mode === "multi-query+hyde" ? this.generateParaphrases(query) : Promise.resolve([]),
+      mode === "hyde" || mode === "multi-query+hyde" ? this.generateHypotheticalAnswer(query) : Promise.resolve(null),
+    ]);
+
+    paraphrases.forEach((text, index) => variants.push({ label: `paraphrase-${index + 1}`, text }));
+    if (hypotheticalAnswer) {
+      variants.push({ label: "hyde", text: hypotheticalAnswer });
+    }
+
+    return variants;
+  }
+
+  /**
+   * Generate differently worded versions of the question in its own language
+   */
+  async generateParaphrases(query: string): Promise<string[]> {
+    try {
+      const completion = (await this.openaiService.createChatCompletion(
+        [
+          {
+            role: "system",
+            content: `Generate ${this.paraphraseCount} differently worded search queries for the question below, to search a Bengali textbook. Use synonyms and alternative phrasings, keep names unchanged and keep the language of the question. Respond only with JSON: {"queries": string[]}`,
+          },
+          { role: "user", content: query },
+        ],
+        { temperature: 0.5, maxTokens: 300, responseFormat: "json_object" }
+      )) as OpenAI.Chat.Completions.ChatCompletion;
+
+      const parsed = JSON.parse(completion.choices[0]?.message?.content || "{}") as { queries?: unknown[] };
+      return (parsed.queries || [])
+        .filter((text): text is string => typeof text === "string" && text.trim().length > 0 && text.trim() !== query)
+        .slice(0, this.paraphraseCount);
+    } catch (error) {
+      Logger.warning("Paraphrase generation failed:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Translate an English question into Bengali as worded in the textbook, so it
+   * can be matched against the Bengali corpus; returns null if translation fails
+   */
+  async translateToBengali(query: string): Promise<string | null> {
+    try {
+      const completion = (await this.openaiService.createChatCompletion(
+        [
+          {
+            role: "system",
+            content: "Translate the question into natural Bengali as a student of a Bengali literature textbook would ask it. Write names of people and places in Bengali script (e.g. Anupam → অনুপম, Kalyani → কল্যাণী). Output only the Bengali question.",
+          },
+          { role: "user", content: query },
+        ],
+        { temperature: 0, maxTokens: 200 }
+      )) as OpenAI.Chat.Completions.ChatCompletion;
+
+      const translation = completion.choices[0]?.message?.content?.trim();
+      return translation || null;
+    } catch (error) {
+      Logger.warning("Query translation failed:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Write a short passage that would answer the question (HyDE); its embedding
+   * sits closer to answer-bearing chunks than the question's embedding does
+   */
+  async generateHypotheticalAnswer(query: string): Promise<string | null> {
+    try {
+      const completion = (await this.openaiService.createChatCompletion(
+        [
+          {
+            role: "system",
+            content: "Write a short passage (3-4 sentences) in Bengali, in the style of a Bengali literature textbook, that answers the question. It is used only for search, so plausible details are fine. Output only the passage.",
+          },
+          { role: "user", content: query },
+        ],
+        { temperature: 0.3, maxTokens: 300 }
+      )) as OpenAI.Chat.Completions.ChatCompletion;
+
+      const passage = completion.choices[0]?.message?.content?.trim();
+      return passage || null;
+    } catch (error) {
+      Logger.warning("Hypothetical answer generation failed:", error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import OpenAI from "openai";
+import { OpenAIService } from "./openai.service";
+import { ChatMessage } from "../utils/session.utils";
+import { Logger } from "../utils/error-handling.utils";
+import { truncateGraphemes } from "../utils/grapheme.utils";
+
+/**
+ * Rewrites follow-up questions into standalone search queries using the chat history,
+ * so pronouns like "তার" or "he" resolve to the person they refer to before retrieval
+ */
+export class QueryRewriterService {
+  private openaiService: OpenAIService;
+  private maxHistoryMessages: number;
+  private maxMessageChars: number;
+
+  constructor(openaiService: OpenAIService = new OpenAIService(), maxHistoryMessages: number = 6, maxMessageChars: number = 500) {
+    this.openaiService = openaiService;
+    this.maxHistoryMessages = maxHistoryMessages;
+    this.maxMessageChars = maxMessageChars;
+  }
+
+  /**
+   * Condense chat history plus a follow-up message into a standalone query.
+   * Returns the message unchanged when there is no history or the rewrite fails.
+   */
+  async condenseQuery(message: string, chatHistory: ChatMessage[]): Promise<string> {
+    try {
+      const recentHistory = chatHistory.slice(-this.maxHistoryMessages).filter((msg) => msg.content?.trim());
+      if (recentHistory.length === 0) {
+        return message;
+      }
+
+      const transcript = recentHistory.map((msg) => `${msg.role === "user" ? "User" : "Assistant"}: ${truncateGraphemes(msg.content, this.maxMessageChars)}`).join("\n");
+
+      const completion = (await this.openaiService.createChatCompletion(
+        [
+          {
+            role: "system",
+            content:
+              "Rewrite the user's follow-up question as a standalone search query for a Bengali textbook. Replace pronouns and vague references with the people, stories or things they refer to in the conversation, spelled exactly as in the conversation. Keep the language of the follow-up question. If it is already standalone, return it unchanged. Output only the query.",
+          },
+          { role: "user", content: `Conversation:\n${transcript}\n\nFollow-up question: ${message}` },
+        ],
+        { temperature: 0, maxTokens: 200 }
+      )) as OpenAI.Chat.Completions.ChatCompletion;
+
+      const rewritten = (completion.choices[0]?.message?.content || "").trim().replace(/^["'“]|["'”]$/g, "");
+      return rewritten || message;
+    } catch (error) {
+      Logger.warning("Query condensation failed, using original message:", error);
+      return message;
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import { OpenAIService } from "./openai.service";
-import { PineconeService } from "./pinecone.service";
+import { createVectorStore } from "./vector-store.factory";
+import { VectorStore } from "../types/vector-store.types";
+import { RetrievalOptions } from "../types/retrieval.types";
+import { ContextRetrievalService } from "./context-retrieval.service";
 import { cosineSimilarity, roundToDecimals } from "../utils/math.utils";
+import { truncateGraphemes } from "../utils/grapheme.utils";
 
 export interface GroundednessEvaluation {
   score: number;
@@ -28,11 +32,12 @@ export interface RAGEvaluation {
 
 export class RAGEvaluationService {
   private openaiService: OpenAIService;
-  private pineconeService: PineconeService;
+  private vectorStore: VectorStore;
+  private contextRetrievalService: ContextRetrievalService | null = null;
 
-  constructor() {
+  constructor(vectorStore: VectorStore = createVectorStore()) {
     this.openaiService = new OpenAIService();
-    this.pineconeService = new PineconeService();
+    this.vectorStore = vectorStore;
   }
 
   /**
@@ -64,7 +69,7 @@ export class RAGEvaluationService {
         .slice(0, 3); // Top 3 supporting contexts
 
       highSimilarityIndices.forEach((item) => {
-        supportingEvidence.push(contexts[item.idx].substring(0, 200) + "...");
+        supportingEvidence.push(truncateGraphemes(contexts[item.idx], 200) + "...");
       });
 
       // Calculate overall groundedness score
@@ -142,9 +147,14 @@ export class RAGEvaluationService {
   }
 
   /**
-   * Retrieve contexts for a query and evaluate relevance
+   * Retrieve contexts for a query and evaluate relevance.
+   * With retrieval options, the full retrieval pipeline is used so modes
+   * (e.g. query expansion) can be compared against plain semantic search.
    */
-  async retrieveAndEvaluateRelevance(query: string): Promise<{
+  async retrieveAndEvaluateRelevance(
+    query: string,
+    retrievalOptions?: RetrievalOptions
+  ): Promise<{
     contexts: string[];
     relevanceEvaluation: RelevanceEvaluation;
     retrievalMetrics: {
@@ -154,14 +164,23 @@ export class RAGEvaluationService {
     };
   }> {
     try {
-      // Create embedding for the query
-      const queryEmbedding = await this.openaiService.createEmbedding(query);
+      let result;
+      let scores: number[];
+      if (retrievalOptions) {
+        result = await this.getContextRetrievalService().retrieveContext(query, retrievalOptions);
+        // Pipeline scores (fused, reranked, ...) are not similarities; score what was actually returned
+        scores = await this.scoreContexts(query, result.contexts);
+      } else {
+        // Create embedding for the query
+        const queryEmbedding = await this.openaiService.createEmbedding(query);
 
-      // Query Pinecone
-      const result = await this.pineconeService.queryVectors(queryEmbedding, 10, 0.1);
+        // Query the vector store
+        result = await this.vectorStore.queryVectors(queryEmbedding, 10, 0.1);
+        scores = result.searchScores;
+      }
 
       // Evaluate relevance
-      const relevanceEvaluation = this.evaluateRelevance(result.searchScores);
+      const relevanceEvaluation = this.evaluateRelevance(scores);
 
       return {
         contexts: result.contexts,
@@ -187,10 +206,29 @@ export class RAGEvaluationService {
     }
   }
 
+  /**
+   * Cosine similarity of each context to the query, in retrieval order. Matches the scores
+   * of plain semantic search, so pipeline modes and plain retrieval are scored alike.
+   */
+  private async scoreContexts(query: string, contexts: string[]): Promise<number[]> {
+    if (contexts.length === 0) {
+      return [];
+    }
+    const [queryEmbedding, ...contextEmbeddings] = await this.openaiService.createEmbeddings([query, ...contexts]);
+    return contextEmbeddings.map((embedding) => cosineSimilarity(queryEmbedding, embedding));
+  }
+
+  private getContextRetrievalService(): ContextRetrievalService {
+    if (!this.contextRetrievalService) {
+      this.contextRetrievalService = new ContextRetrievalService(this.vectorStore);
+    }
+    return this.contextRetrievalService;
+  }
+
   /**
    * Complete RAG evaluation combining groundedness and relevance
    */
-  async evaluateRAG(query: string, answer: string, contexts?: string[]): Promise<RAGEvaluation> {
+  async evaluateRAG(query: string, answer: string, contexts?: string[], retrievalOptions?: RetrievalOptions): Promise<RAGEvaluation> {
     let evaluationContexts = contexts;
     let relevanceEvaluation: RelevanceEvaluation;
     let retrievalMetrics;
@@ -198,7 +236,7 @@ export class RAGEvaluationService {
     // If contexts are not provided, retrieve them
     if (!contexts || contexts.length === 0) {
       console.log("📡 No contexts provided, retrieving from vector database...");
-      const retrievalResult = await this.retrieveAndEvaluateRelevance(query);
+      const retrievalResult = await this.retrieveAndEvaluateRelevance(query, retrievalOptions);
       evaluationContexts = retrievalResult.contexts;
       relevanceEvaluation = retrievalResult.relevanceEvaluation;
       retrievalMetrics = retrievalResult.retrievalMetrics;
@@ -224,7 +262,7 @@ export class RAGEvaluationService {
     return {
       groundedness: groundednessEvaluation,
       relevance: relevanceEvaluation,
-      contextUsed: evaluationContexts?.map((c) => c.substring(0, 150) + "...") || [],
+      contextUsed: evaluationContexts?.map((c) => truncateGraphemes(c, 150) + "...") || [],
       retrievalMetrics,
     };
   }
@@ -0,0 +1,20 @@
+import { Reranker, RerankerType } from "../types/retrieval.types";
+import { LLMRerankerService } from "./llm-reranker.service";
+import { LexicalRerankerService } from "./lexical-reranker.service";
+import { OpenAIService } from "./openai.service";
+
+/**
+ * Create a reranker by type; "none" disables reranking
+ */
+export function createReranker(type: RerankerType, openaiService?: OpenAIService): Reranker | null {
+  switch (type) {
+    case "none":
+      return null;
+    case "llm":
+      return new LLMRerankerService(openaiService);
+    case "lexical":
+      return new LexicalRerankerService();
+    default:
+      throw new Error(`Unknown reranker: ${type}`);
+  }
+}
@@ -1,75 +1,52 @@
-import { DocumentChunk, ChunkingOptions } from "../types/pdf-processing.types";
+import { DocumentChunk, ChunkingOptions, PageSpan, TextSection, TextSpan, VerseLine } from "../types/pdf-processing.types";
 import { Logger } from "../utils/error-handling.utils";
-import { cleanBengaliText, splitIntoSentences } from "../utils/text-processing.utils";
+import { cleanBengaliText, findPageRange, splitIntoSentenceSpans } from "../utils/text-processing.utils";
+import { detectSections } from "../utils/section-detection.utils";
+import { isVerse, splitVerseLines } from "../utils/verse-detection.utils";
+import { estimateTokenCount } from "../utils/embedding-batch.utils";
+import { fitGraphemePrefix, truncateGraphemes } from "../utils/grapheme.utils";
 
 export class TextChunkingService {
   private defaultOptions: Required<ChunkingOptions> = {
     chunkSize: 1000,
     overlap: 200,
     minChunkSize: 50,
+    structureAware: true,
+    verseAware: true,
+    sizeUnit: "characters",
+    tokenizer: estimateTokenCount,
   };
 
   /**
-   * Split text into chunks with proper chunk size and overlap for better context
+   * Split text into chunks with proper chunk size and overlap for better context.
+   * `text` must be the combined page text that `pageSpans` refers to (as returned by
+   * OCRService); each chunk gets the exact pages its characters come from.
+   * With structureAware (default), chunks never cross a textbook section boundary
+   * (lesson body, author biography, glossary, exercises, ...) and carry the
+   * section type and lesson title. With verseAware (default), poems are chunked
+   * by whole stanzas with their line breaks and stanza/line numbers.
+   * Sizes are in characters or, with sizeUnit "tokens", in tokens of `tokenizer`.
    */
-  chunkTextWithPages(text: string, pageInfo: Array<{ page: number; text: string }>, options: ChunkingOptions = {}): DocumentChunk[] {
+  chunkTextWithPages(text: string, pageSpans: PageSpan[], options: ChunkingOptions = {}): DocumentChunk[] {
     const config = { ...this.defaultOptions, ...options };
 
     Logger.info("🔄 Starting text chunking with proper chunk size and overlap...");
     Logger.info(`Input text length: ${text.length}`);
-    Logger.info(`Page info count: ${pageInfo.length}`);
-    Logger.info(`Chunk size: ${config.chunkSize}, overlap: ${config.overlap}`);
+    Logger.info(`Page span count: ${pageSpans.length}`);
+    Logger.info(`Chunk size: ${config.chunkSize}, overlap: ${config.overlap} (${config.sizeUnit})`);
 
-    const cleanedText = cleanBengaliText(text);
-    Logger.info(`Cleaned text length: ${cleanedText.length}`);
-
-    const chunks: DocumentChunk[] = [];
-
-    // Split by sentences first (looking for Bengali and English sentence endings)
-    const sentences = splitIntoSentences(cleanedText);
-    Logger.info(`Split into ${sentences.length} sentences`);
-
-    let currentChunk = "";
-    let chunkIndex = 0;
-    let currentPageNumbers: number[] = [];
-
-    // Create a mapping of text positions to page numbers
-    const textToPageMap = this.createTextToPageMap(pageInfo);
-
-    for (let i = 0; i < sentences.length; i++) {
-      const sentence = sentences[i].trim();
-
-      // Try to determine which page this sentence belongs to
-      const sentencePage = this.findSentencePage(sentence, textToPageMap);
-
-      // If adding this sentence would exceed chunk size, finalize current chunk
-      if (currentChunk.length + sentence.length > config.chunkSize && currentChunk.length > 0) {
-        if (currentChunk.trim()) {
-          chunks.push(this.createChunk(currentChunk.trim(), currentPageNumbers, chunkIndex));
-          chunkIndex++;
-        }
-
-        // Start new chunk with overlap from previous chunk
-        const overlapText = this.createOverlapText(currentChunk, config.overlap);
-        currentChunk = overlapText + (overlapText ? " " : "") + sentence;
-        currentPageNumbers = sentencePage ? [sentencePage] : [];
-      } else {
-        currentChunk += (currentChunk ? " " : "") + sentence;
-        if (sentencePage && !currentPageNumbers.includes(sentencePage)) {
-          currentPageNumbers.push(sentencePage);
-        }
-      }
-    }
-
-    // Add the last chunk if it has content
-    if (currentChunk.trim()) {
-      chunks.push(this.createChunk(currentChunk.trim(), currentPageNumbers, chunkIndex));
-    }
+    const chunks = config.structureAware ? this.chunkBySections(text, pageSpans, config) : this.buildChunks(text, splitIntoSentenceSpans(text), pageSpans, config);
 
     // Filter out very short chunks
     Logger.info(`📊 Before filtering: ${chunks.length} chunks`);
-    const filteredChunks = chunks.filter((chunk) => chunk.content.length >= config.minChunkSize);
-    Logger.info(`📊 After filtering (>= ${config.minChunkSize} chars): ${filteredChunks.length} chunks`);
+    const measure = this.sizeMeasure(config);
+    const filteredChunks = chunks.filter((chunk) => measure(chunk.content) >= config.minChunkSize);
+    Logger.info(`📊 After filtering (>= ${config.minChunkSize} ${config.sizeUnit}): ${filteredChunks.length} chunks`);
+
+    const unattributed = filteredChunks.filter((chunk) => chunk.metadata.page_start === undefined).length;
+    if (pageSpans.length > 0 && unattributed > 0) {
+      Logger.warning(`${unattributed} chunks could not be attributed to a page`);
+    }
 
     this.logChunkingResults(filteredChunks);
 
@@ -85,80 +62,259 @@ export class TextChunkingService {
     Logger.info("🔄 Starting simple text chunking...");
 
     const cleanedText = cleanBengaliText(text);
-    const sentences = splitIntoSentences(cleanedText);
+    const chunks = this.buildChunks(cleanedText, splitIntoSentenceSpans(cleanedText), [], config);
+
+    const measure = this.sizeMeasure(config);
+    return chunks.filter((chunk) => measure(chunk.content) >= config.minChunkSize);
+  }
+
+  private sizeMeasure(config: Required<ChunkingOptions>): (text: string) => number {
+    return config.sizeUnit === "tokens" ? config.tokenizer : (text) => text.length;
+  }
+
+  /**
+   * Detect sections and chunk each one separately, numbering chunks across the whole document
+   */
+  private chunkBySections(text: string, pageSpans: PageSpan[], config: Required<ChunkingOptions>): DocumentChunk[] {
+    const sections = detectSections(text);
+    Logger.info(`📑 Detected ${sections.length} sections: ${this.summarizeSections(sections)}`);
 
     const chunks: DocumentChunk[] = [];
-    let currentChunk = "";
-    let chunkIndex = 0;
+    let verseSections = 0;
+    for (const section of sections) {
+      let sectionChunks: DocumentChunk[];
+      if (config.verseAware && section.type === "lesson" && isVerse(text, section.start, section.end)) {
+        // Number stanzas and lines from the poem itself, not its title line
+        const bodyStart = section.title && text.startsWith(section.title, section.start) ? section.start + section.title.length : section.start;
+        sectionChunks = this.buildVerseChunks(splitVerseLines(text, bodyStart, section.end, pageSpans), pageSpans, config, chunks.length);
+        verseSections++;
+      } else {
+        // Split by sentences (Bengali and English sentence endings), keeping offsets in the full text
+        const sentences = splitIntoSentenceSpans(text.slice(section.start, section.end)).map((sentence) => ({
+          ...sentence,
+          start: sentence.start + section.start,
+          end: sentence.end + section.start,
+        }));
+        sectionChunks = this.buildChunks(text, sentences, pageSpans, config, chunks.length);
+      }
 
-    for (const sentence of sentences) {
-      if (currentChunk.length + sentence.length > config.chunkSize && currentChunk.length > 0) {
-        if (currentChunk.trim()) {
-          chunks.push(this.createChunk(currentChunk.trim(), [], chunkIndex));
-          chunkIndex++;
+      sectionChunks.forEach((chunk) => {
+        chunk.metadata.section_type = section.type;
+        if (section.title) {
+          chunk.metadata.section_title = section.title;
         }
+      });
+      chunks.push(...sectionChunks);
+    }
+
+    if (verseSections > 0) {
+      Logger.info(`📜 ${verseSections} sections chunked as verse`);
+    }
+
+    return chunks;
+  }
+
+  private summarizeSections(sections: TextSection[]): string {
+    const counts = new Map<string, number>();
+    sections.forEach((section) => counts.set(section.type, (counts.get(section.type) || 0) + 1));
+    return Array.from(counts.entries())
+      .map(([type, count]) => `${type} ×${count}`)
+      .join(", ");
+  }
 
-        const overlapText = this.createOverlapText(currentChunk, config.overlap);
-        currentChunk = overlapText + (overlapText ? " " : "") + sentence;
+  /**
+   * Pack sentences into chunks of at most chunkSize, tracking the
+   * character range [chunkStart, chunkEnd) each chunk covers in the source text
+   */
+  private buildChunks(text: string, sentences: TextSpan[], pageSpans: PageSpan[], config: Required<ChunkingOptions>, firstChunkIndex: number = 0): DocumentChunk[] {
+    const measure = this.sizeMeasure(config);
+    const chunks: DocumentChunk[] = [];
+    let currentChunk = "";
+    let currentSize = 0;
+    let chunkStart = -1;
+    let chunkEnd = 0;
+    let chunkIndex = firstChunkIndex;
+
+    for (const sentence of sentences.flatMap((span) => this.splitOversizedSpan(span, measure, config.chunkSize))) {
+      const sentenceSize = measure(sentence.text);
+
+      // If adding this sentence would exceed chunk size, finalize current chunk
+      if (currentSize + sentenceSize > config.chunkSize && currentChunk.length > 0) {
+        chunks.push(this.createChunk(currentChunk, findPageRange(pageSpans, chunkStart, chunkEnd), chunkIndex));
+        chunkIndex++;
+
+        // Start new chunk with overlap from previous chunk, unless the overlap would not leave room for the sentence
+        const overlap = this.createOverlap(text, chunkStart, chunkEnd, Math.min(config.overlap, config.chunkSize - sentenceSize), measure);
+        currentChunk = overlap.text + (overlap.text ? " " : "") + sentence.text;
+        currentSize = overlap.size + sentenceSize;
+        chunkStart = overlap.text ? overlap.start : sentence.start;
       } else {
-        currentChunk += (currentChunk ? " " : "") + sentence;
+        currentChunk += (currentChunk ? " " : "") + sentence.text;
+        currentSize += sentenceSize;
+        if (chunkStart < 0) {
+          chunkStart = sentence.start;
+        }
       }
+      chunkEnd = sentence.end;
     }
 
+    // Add the last chunk if it has content
     if (currentChunk.trim()) {
-      chunks.push(this.createChunk(currentChunk.trim(), [], chunkIndex));
+      chunks.push(this.createChunk(currentChunk, findPageRange(pageSpans, chunkStart, chunkEnd), chunkIndex));
     }
 
-    return chunks.filter((chunk) => chunk.content.length >= config.minChunkSize);
+    return chunks;
   }
 
   /**
-   * Create a mapping of text positions to page numbers
+   * Pack whole stanzas into chunks of at most chunkSize, keeping line breaks.
+   * A stanza longer than a chunk is split between lines. There is no overlap:
+   * a chunk always starts at a stanza or line boundary.
    */
-  private createTextToPageMap(pageInfo: Array<{ page: number; text: string }>): Map<string, number> {
-    const textToPageMap = new Map<string, number>();
-
-    for (const pageData of pageInfo) {
-      const cleanPageText = cleanBengaliText(pageData.text);
-      if (cleanPageText.trim()) {
-        // Use first 100 chars as key for mapping
-        textToPageMap.set(cleanPageText.substring(0, 100), pageData.page);
+  private buildVerseChunks(lines: VerseLine[], pageSpans: PageSpan[], config: Required<ChunkingOptions>, firstChunkIndex: number): DocumentChunk[] {
+    const measure = this.sizeMeasure(config);
+    const chunks: DocumentChunk[] = [];
+    let current: VerseLine[] = [];
+
+    const fits = (extra: VerseLine[]) => measure(this.renderVerse([...current, ...extra])) <= config.chunkSize;
+    const flush = () => {
+      if (current.length === 0) return;
+      const first = current[0];
+      const last = current[current.length - 1];
+      const chunk = this.createChunk(this.renderVerse(current), findPageRange(pageSpans, first.start, last.end), firstChunkIndex + chunks.length);
+      chunk.metadata.stanza_start = first.stanza;
+      chunk.metadata.stanza_end = last.stanza;
+      chunk.metadata.line_start = first.line;
+      chunk.metadata.line_end = last.line;
+      chunks.push(chunk);
+      current = [];
+    };
+
+    const stanzas: VerseLine[][] = [];
+    lines.forEach((line, index) => {
+      if (index === 0 || line.stanza !== lines[index - 1].stanza) {
+        stanzas.push([]);
+      }
+      stanzas[stanzas.length - 1].push(line);
+    });
+
+    for (const stanza of stanzas) {
+      if (!fits(stanza)) {
+        flush();
+      }
+      if (fits(stanza)) {
+        current.push(...stanza);
+        continue;
+      }
+
+      // Stanza longer than a chunk: fill line by line, splitting overlong lines between words
+      for (const line of stanza) {
+        for (const piece of this.splitOversizedSpan(line, measure, config.chunkSize)) {
+          const pieceLine = { ...line, ...piece };
+          if (!fits([pieceLine])) {
+            flush();
+          }
+          current.push(pieceLine);
+        }
       }
     }
+    flush();
 
-    return textToPageMap;
+    return chunks;
   }
 
   /**
-   * Find which page a sentence belongs to
+   * Join verse lines with line breaks, and a blank line between stanzas
    */
-  private findSentencePage(sentence: string, textToPageMap: Map<string, number>): number | undefined {
-    for (const [pageText, pageNum] of textToPageMap.entries()) {
-      if (pageText.includes(sentence.substring(0, 50))) {
-        return pageNum;
+  private renderVerse(lines: VerseLine[]): string {
+    return lines.map((line, index) => (index === 0 ? "" : line.stanza === lines[index - 1].stanza ? "\n" : "\n\n") + line.text).join("");
+  }
+
+  /**
+   * Split a sentence longer than chunkSize at word boundaries, and a single word
+   * longer than chunkSize between grapheme clusters, keeping source offsets
+   */
+  private splitOversizedSpan(sentence: TextSpan, measure: (text: string) => number, chunkSize: number): TextSpan[] {
+    if (measure(sentence.text) <= chunkSize) {
+      return [sentence];
+    }
+
+    const pieces: TextSpan[] = [];
+    const addPiece = (start: number, end: number) => {
+      const pieceText = sentence.text.slice(start, end).trim();
+      if (pieceText) {
+        pieces.push({ text: pieceText, start: sentence.start + start, end: sentence.start + end });
+      }
+    };
+
+    let pieceStart = 0;
+    let pieceEnd = 0;
+    for (const word of sentence.text.matchAll(/\S+/g)) {
+      const wordStart = word.index || 0;
+      const wordEnd = wordStart + word[0].length;
+
+      if (pieceEnd > pieceStart && measure(sentence.text.slice(pieceStart, wordEnd)) > chunkSize) {
+        addPiece(pieceStart, pieceEnd);
+        pieceStart = wordStart;
       }
+      while (measure(sentence.text.slice(pieceStart, wordEnd)) > chunkSize) {
+        const cut = fitGraphemePrefix(sentence.text, pieceStart, wordEnd, chunkSize, measure);
+        addPiece(pieceStart, cut);
+        pieceStart = cut;
+      }
+      pieceEnd = wordEnd;
     }
-    return undefined;
+    addPiece(pieceStart, pieceEnd);
+
+    return pieces;
   }
 
   /**
-   * Create overlap text from the end of current chunk
+   * Create overlap text of at most `overlap` in size from the end of the chunk covering [start, end),
+   * made of whole words, with the source offset it starts at
    */
-  private createOverlapText(currentChunk: string, overlap: number): string {
-    const words = currentChunk.trim().split(/\s+/);
-    const overlapWords = words.slice(-Math.floor(overlap / 6)); // Approximate word count for overlap
-    return overlapWords.join(" ");
+  private createOverlap(text: string, start: number, end: number, overlap: number, measure: (text: string) => number): { text: string; start: number; size: number } {
+    const words = Array.from(text.slice(start, end).matchAll(/\S+/g));
+
+    let firstWord = words.length;
+    let size = 0;
+    while (firstWord > 0) {
+      const candidate = words
+        .slice(firstWord - 1)
+        .map((word) => word[0])
+        .join(" ");
+      const candidateSize = measure(candidate);
+      if (candidateSize > overlap) {
+        break;
+      }
+      firstWord--;
+      size = candidateSize;
+    }
+
+    const overlapWords = words.slice(firstWord);
+    if (overlapWords.length === 0) {
+      return { text: "", start: end, size: 0 };
+    }
+
+    return {
+      text: overlapWords.map((word) => word[0]).join(" "),
+      start: start + (overlapWords[0].index || 0),
+      size,
+    };
   }
 
   /**
    * Create a document chunk with metadata
    */
-  private createChunk(content: string, pageNumbers: number[], chunkIndex: number): DocumentChunk {
+  private createChunk(content: string, pages: { pageStart: number; pageEnd: number } | undefined, chunkIndex: number): DocumentChunk {
     return {
       content,
       metadata: {
         source: "hsc26.pdf",
-        page: pageNumbers.length > 0 ? Math.min(...pageNumbers) : undefined,
+        page: pages?.pageStart,
+        page_start: pages?.pageStart,
+        page_end: pages?.pageEnd,
+        doc_type: "text",
         chunk_index: chunkIndex,
         char_count: content.length,
       },
@@ -170,7 +326,7 @@ export class TextChunkingService {
    */
   private logChunkingResults(chunks: DocumentChunk[]): void {
     if (chunks.length > 0) {
-      Logger.info(`📋 Sample chunk: "${chunks[0].content.substring(0, 100)}..."`);
+      Logger.info(`📋 Sample chunk: "${truncateGraphemes(chunks[0].content, 100)}..."`);
       const avgChunkSize = Math.round(chunks.reduce((sum, chunk) => sum + chunk.metadata.char_count, 0) / chunks.length);
       Logger.info(`📋 Average chunk size: ${avgChunkSize} characters`);
     } else {
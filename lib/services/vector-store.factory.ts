@@ -0,0 +1,27 @@
+import { VectorStore, VectorStoreProvider } from "../types/vector-store.types";
+import { PineconeService } from "./pinecone.service";
+import { LocalVectorStoreService } from "./local-vector-store.service";
+import { BM25IndexService } from "./bm25-index.service";
+import { VECTOR_STORE_CONFIG } from "../../config/vector-store";
+import { RETRIEVAL_CONFIG } from "../../config/retrieval";
+
+/**
+ * Create the vector store configured via VECTOR_STORE (defaults to Pinecone)
+ */
+export function createVectorStore(provider: VectorStoreProvider = VECTOR_STORE_CONFIG.provider): VectorStore {
+  switch (provider) {
+    case "pinecone":
+      return new PineconeService();
+    case "local":
+      return new LocalVectorStoreService(VECTOR_STORE_CONFIG.localIndexName, VECTOR_STORE_CONFIG.localDirectory);
+    default:
+      throw new Error(`Unknown vector store provider: ${provider}`);
+  }
+}
+
+/**
+ * Create the BM25 lexical index that lives alongside the given vector index
+ */
+export function createLexicalIndex(indexName: string): BM25IndexService {
+  return new BM25IndexService(indexName, RETRIEVAL_CONFIG.lexicalIndexDirectory);
+}
@@ -0,0 +1,12 @@
+export type EmbeddingProviderType = "openai" | "openai-compatible" | "hashing";
+
+/**
+ * Common contract for anything that turns text into fixed-size vectors
+ */
+export interface EmbeddingProvider {
+  /** Stable identifier including the model, e.g. "openai/text-embedding-ada-002" */
+  readonly name: string;
+  readonly dimension: number;
+  embed(input: string): Promise<number[]>;
+  embedBatch(inputs: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,5 @@
+/** Language of a user message; romanized Bengali is Bengali typed in Latin script ("anupam er mama ke?") */
+export type QueryLanguage = "bengali" | "romanized-bengali" | "english";
+
+/** Script used for answers to romanized Bengali questions */
+export type RomanizedReplyScript = "bengali" | "latin";
@@ -3,6 +3,26 @@ export interface DocumentChunk {
   metadata: {
     source: string;
     page?: number;
+    page_start?: number;
+    page_end?: number;
+    chapter?: string;
+    section_type?: SectionType;
+    section_title?: string;
+    /** Stanza and line numbers (1-based, within the poem) covered by a verse chunk */
+    stanza_start?: number;
+    stanza_end?: number;
+    line_start?: number;
+    line_end?: number;
+    /** How the text of the chunk's pages was obtained; "mixed" when its pages differ */
+    extraction_method?: ExtractionMethod | "mixed";
+    /** Mean and lowest Tesseract confidence (0-100) of the chunk's OCR'd pages */
+    ocr_confidence?: number;
+    ocr_min_confidence?: number;
+    /** Set when a page of the chunk is below the OCR confidence threshold */
+    low_confidence?: boolean;
+    doc_type?: DocumentType;
+    mcq_options?: string[];
+    mcq_answer?: MCQOptionLabel;
     chunk_index: number;
     char_count: number;
   };
@@ -19,19 +39,176 @@ export interface PDFImage {
   imagePath: string;
 }
 
+export type BinarizationMode = "none" | "otsu" | "adaptive";
+
+/** Image cleanup applied to rendered pages before OCR */
+export interface ImagePreprocessingOptions {
+  enabled: boolean;
+  /** Convert to grayscale and stretch contrast */
+  grayscale: boolean;
+  /** "adaptive" handles gray and uneven backgrounds; "otsu" uses one threshold per page */
+  binarization: BinarizationMode;
+  /** Detect and undo rotation of the text lines (up to ±5°) */
+  deskew: boolean;
+  /** Crop empty margins around the text */
+  cropMargins: boolean;
+  /** Fraction of the page height cut from the top and bottom (running headers, page numbers) */
+  cropTop: number;
+  cropBottom: number;
+  /** Resize factor applied before binarization (1 = off) */
+  upscale: number;
+  /** Directory for before/after images of every page; unset = no debug images */
+  debugDir?: string;
+}
+
+/** Character range [start, end) of one page within the combined document text */
+export interface PageSpan {
+  page: number;
+  start: number;
+  end: number;
+}
+
+/** How a page's text was obtained: the PDF's embedded text layer or OCR of the rendered page */
+export type ExtractionMethod = "text-layer" | "ocr";
+
+/** Tesseract confidence (0-100) for a page: the page mean and its least confident word */
+export interface OCRConfidence {
+  mean: number;
+  min: number;
+}
+
+/** Text of one page and how it was extracted */
+export interface ExtractedPage {
+  page: number;
+  text: string;
+  method: ExtractionMethod;
+  /** OCR pages only */
+  confidence?: OCRConfidence;
+}
+
+/** Summary of one PDF processing run: which pages the system could not read well */
+export interface IngestionReport {
+  pagesProcessed: number;
+  pagesByMethod: Record<ExtractionMethod, number>;
+  confidenceThreshold: number;
+  /** OCR'd pages whose text came from the OCR cache instead of a fresh recognition */
+  cachedOCRPages: number;
+  /** Mean OCR confidence over all OCR'd pages */
+  meanConfidence?: number;
+  /** OCR'd pages whose mean confidence is below the threshold, lowest first */
+  lowConfidencePages: Array<{ page: number } & OCRConfidence>;
+  /** Pages that yielded no usable text at all (OCR failed or too little text) */
+  unreadablePages: Array<{ page: number; confidence?: OCRConfidence }>;
+}
+
+/** Why a page's embedded text was rejected in favour of OCR */
+export type TextLayerIssue = "too-short" | "broken-unicode" | "legacy-font" | "malformed-bengali";
+
+export interface TextLayerAssessment {
+  usable: boolean;
+  issue?: TextLayerIssue;
+  /** Share of characters (or Bengali signs) that triggered the issue */
+  ratio?: number;
+}
+
+/** A piece of text with its character range [start, end) in the source text */
+export interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** A line of a poem with its stanza and line number within the poem (1-based) */
+export interface VerseLine extends TextSpan {
+  stanza: number;
+  line: number;
+}
+
+/** Kind of textbook section a chunk comes from */
+export type SectionType = "lesson" | "objective" | "introduction" | "author-bio" | "glossary" | "exercise";
+
+/** Kind of indexed document: prose chunk or a structured multiple-choice question */
+export type DocumentType = "text" | "mcq";
+
+export type MCQOptionLabel = "ক" | "খ" | "গ" | "ঘ";
+
+/** A multiple-choice question parsed from the OCR text */
+export interface MCQRecord {
+  /** Question number as printed in the book */
+  number: number;
+  stem: string;
+  options: Record<MCQOptionLabel, string>;
+  /** Correct option, from an inline answer or an answer key; undefined if the book gives none */
+  answer?: MCQOptionLabel;
+  page_start?: number;
+  page_end?: number;
+  section_title?: string;
+  /** Character range [start, end) of the question in the document text */
+  start: number;
+  end: number;
+}
+
+/** A detected section: character range [start, end) in the document text */
+export interface TextSection {
+  type: SectionType;
+  /** Lesson title the section belongs to, if one was detected */
+  title?: string;
+  start: number;
+  end: number;
+}
+
+/** OCR output for one page; text is empty when recognition failed */
+export interface PageRecognition {
+  page: number;
+  text: string;
+  /** Tesseract output before cleanBengaliText; what the OCR cache stores, so cleaning changes apply to cached pages */
+  rawText?: string;
+  confidence?: OCRConfidence;
+}
+
 export interface OCRResult {
   text: string;
-  pageInfo: Array<{ page: number; text: string }>;
+  pageInfo: Array<{ page: number; text: string; confidence: OCRConfidence }>;
+  /** Where each page's text sits in `text` */
+  pageSpans: PageSpan[];
+  /** Pages left out of `text` because recognition failed or found too little text */
+  skippedPages: Array<{ page: number; confidence?: OCRConfidence }>;
 }
 
+/** Unit for chunkSize, overlap and minChunkSize */
+export type ChunkSizeUnit = "characters" | "tokens";
+
+/** Counts the tokens in a piece of text, e.g. with the embedding model's tokenizer */
+export type TokenCounter = (text: string) => number;
+
 export interface ChunkingOptions {
   chunkSize?: number;
   overlap?: number;
   minChunkSize?: number;
+  /** Measure sizes in characters (default) or tokens */
+  sizeUnit?: ChunkSizeUnit;
+  /** Token counter used when sizeUnit is "tokens" (default: estimateTokenCount) */
+  tokenizer?: TokenCounter;
+  /** Detect textbook sections and keep chunks within section boundaries (default true) */
+  structureAware?: boolean;
+  /** Chunk poems by whole stanzas with line breaks kept; needs structureAware (default true) */
+  verseAware?: boolean;
+}
+
+export interface MCQExtractionResult {
+  records: MCQRecord[];
+  /** Ranges covered by questions and answer keys, to be left out of prose chunking */
+  consumedRanges: Array<{ start: number; end: number }>;
 }
 
 export interface PDFProcessingOptions {
   pageRanges?: PageRange[];
   chunkingOptions?: ChunkingOptions;
   ocrLanguages?: string;
+  /** Parse multiple-choice questions into structured records (default true) */
+  extractMCQs?: boolean;
+  /** Use the PDF's embedded text where it passes quality checks and OCR only the other pages (default true) */
+  useTextLayer?: boolean;
+  /** Reuse OCR output cached from earlier runs on the same PDF and settings (default true) */
+  useOCRCache?: boolean;
 }
@@ -0,0 +1,104 @@
+import { MetadataFilter, VectorMetadata, VectorQueryResult } from "./vector-store.types";
+
+/** Which retrieval stage surfaced a chunk */
+export type RetrievalSource = "semantic" | "lexical" | "keyword";
+
+export type FusionMethod = "rrf" | "weighted";
+
+export type RerankerType = "none" | "llm" | "lexical";
+
+/** Query expansion: paraphrases (multi-query), a hypothetical answer passage (HyDE), or both */
+export type QueryExpansionMode = "none" | "multi-query" | "hyde" | "multi-query+hyde";
+
+export interface QueryVariant {
+  /** "original", "bengali-translation", "paraphrase-1", "hyde", ... */
+  label: string;
+  text: string;
+}
+
+export interface RetrievedChunk {
+  id: string;
+  content: string;
+  /** Final ranking score (cosine similarity for plain semantic search, fused score otherwise) */
+  score: number;
+  metadata?: VectorMetadata;
+  sources: RetrievalSource[];
+  semanticScore?: number;
+  lexicalScore?: number;
+  /** Score before reranking (set only when a reranker ran) */
+  originalScore?: number;
+  /** Relevance score assigned by the reranker, 0-1 */
+  rerankScore?: number;
+  /** Labels of the query variants that retrieved this chunk (query expansion only) */
+  matchedQueries?: string[];
+  /** Marginal relevance at the time the chunk was picked (diversity selection only) */
+  mmrScore?: number;
+  /** Score multiplier applied because the chunk comes from a low-confidence OCR page */
+  confidenceWeight?: number;
+  /** chunk_index values merged into content by neighbour expansion, in reading order */
+  expandedChunkIndices?: number[];
+}
+
+export interface RetrievalOptions {
+  /** Number of candidates retrieved before reranking (default 10) */
+  topK?: number;
+  /** Overrides the configured reranker for this request */
+  reranker?: RerankerType;
+  /** Number of chunks kept after reranking */
+  rerankTopN?: number;
+  /** Query expansion mode for this request (default: none) */
+  expansion?: QueryExpansionMode;
+  /** MMR relevance/diversity trade-off, 0-1 (1 = pure relevance); overrides MMR_LAMBDA */
+  mmrLambda?: number;
+  /** Adjacent chunks added on each side of every hit (0 = off); overrides NEIGHBOR_WINDOW */
+  neighborWindow?: number;
+  /** Also search with a Bengali translation of English questions; overrides CROSS_LINGUAL_RETRIEVAL */
+  crossLingual?: boolean;
+  /** Restrict search to chunks matching source, page range or chapter */
+  filter?: MetadataFilter;
+  /** Rethrow embedding and vector store failures instead of returning an empty result (default false) */
+  throwOnError?: boolean;
+}
+
+/**
+ * Rescores retrieved candidates against the query and keeps the best topN
+ */
+export interface Reranker {
+  readonly name: string;
+  rerank(query: string, chunks: RetrievedChunk[], topN: number): Promise<RetrievedChunk[]>;
+}
+
+/** Duration of each retrieval stage in milliseconds; stages that did not run are absent */
+export interface RetrievalTimings {
+  translation?: number;
+  expansion?: number;
+  /** Embedding, vector and lexical search and fusion for all query variants */
+  search?: number;
+  diversity?: number;
+  rerank?: number;
+  neighborExpansion?: number;
+  total?: number;
+}
+
+export interface RetrievalResult extends VectorQueryResult {
+  /** Ranked chunks aligned with contexts */
+  chunks: RetrievedChunk[];
+  /** Query variants used when query expansion is enabled */
+  queryVariants?: QueryVariant[];
+  /** Bengali-script query used for retrieval when the question was romanized Bengali */
+  transliteratedQuery?: string;
+  timings?: RetrievalTimings;
+}
+
+export interface LexicalDocument {
+  id: string;
+  content: string;
+  metadata?: VectorMetadata;
+}
+
+export interface LexicalMatch {
+  id: string;
+  score: number;
+  content: string;
+  metadata?: VectorMetadata;
+}
@@ -0,0 +1,97 @@
+import type { DocumentType, ExtractionMethod, MCQOptionLabel, SectionType } from "./pdf-processing.types";
+
+// Declared as a type alias so it stays assignable to Pinecone's indexable RecordMetadata
+export type VectorMetadata = {
+  content: string;
+  source: string;
+  chunk_index: number;
+  char_count: number;
+  /** First and last book page the chunk covers */
+  page_start?: number;
+  page_end?: number;
+  /** Story or chapter title, from the page range description at ingestion */
+  chapter?: string;
+  /** Textbook section the chunk comes from, and the lesson title detected for it */
+  section_type?: SectionType;
+  section_title?: string;
+  /** Stanza and line numbers covered by a chunk of a poem */
+  stanza_start?: number;
+  stanza_end?: number;
+  line_start?: number;
+  line_end?: number;
+  /** Whether the chunk's pages came from the PDF text layer or OCR ("mixed" if both) */
+  extraction_method?: ExtractionMethod | "mixed";
+  /** Mean and lowest OCR confidence (0-100) of the chunk's pages, and whether one is below the threshold */
+  ocr_confidence?: number;
+  ocr_min_confidence?: number;
+  low_confidence?: boolean;
+  /** "mcq" for parsed multiple-choice questions; absent or "text" for prose chunks */
+  doc_type?: DocumentType;
+  /** MCQ options as "ক. text" and the correct option label */
+  mcq_options?: string[];
+  mcq_answer?: MCQOptionLabel;
+};
+
+/**
+ * Restricts search to matching chunks. Page bounds select chunks that overlap
+ * the range [page_start, page_end]; all given fields must match.
+ */
+export interface MetadataFilter {
+  source?: string;
+  page_start?: number;
+  page_end?: number;
+  chapter?: string;
+  section_type?: SectionType;
+  section_title?: string;
+  doc_type?: DocumentType;
+}
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata?: VectorMetadata;
+}
+
+export interface RetrievalMetrics {
+  totalRetrieved: number;
+  aboveThreshold: number;
+  averageSimilarity: number;
+}
+
+export interface VectorQueryResult {
+  contexts: string[];
+  searchScores: number[];
+  retrievalMetrics: RetrievalMetrics;
+  /** Matches above the threshold, aligned with contexts */
+  matches: VectorMatch[];
+}
+
+export interface IndexStats {
+  totalRecordCount?: number;
+  dimension?: number;
+  [key: string]: unknown;
+}
+
+export type VectorStoreProvider = "pinecone" | "local";
+
+/**
+ * Common contract for vector database backends used by retrieval and ingestion
+ */
+export interface VectorStore {
+  readonly provider: VectorStoreProvider;
+  checkIndexExists(): Promise<boolean>;
+  createIndex(dimension: number): Promise<void>;
+  deleteIndex(): Promise<void>;
+  queryVectors(vector: number[], topK?: number, threshold?: number, filter?: MetadataFilter): Promise<VectorQueryResult>;
+  /** Look up records by id; ids that do not exist are skipped */
+  fetchVectors(ids: string[]): Promise<VectorRecord[]>;
+  upsertVectors(vectors: VectorRecord[]): Promise<void>;
+  getIndexStats(): Promise<IndexStats>;
+  getIndexName(): string;
+}
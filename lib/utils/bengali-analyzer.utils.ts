@@ -0,0 +1,130 @@
+/**
+ * Bengali text analysis for lexical search: normalization, tokenization,
+ * stopword removal and light suffix stripping (বিভক্তি / নির্দেশক).
+ *
+ * Queries and documents go through the same analyzer, so an inflected form in
+ * a question (অনুপমকে) matches a different inflection in the text (অনুপমের).
+ */
+
+/** Bump when analysis rules change so persisted indexes know to re-analyze */
+export const ANALYZER_VERSION = "bn-light-v1";
+
+const BENGALI_DIGITS = "০১২৩৪৫৬৭৮৯";
+
+// Dependent vowel signs (কার) and independent vowels
+const VOWEL_PATTERN = /[\u0985-\u0994\u09BE-\u09CC\u09D7]$/;
+
+/**
+ * Suffixes stripped by the stemmer, longest first. `afterVowel` suffixes only
+ * apply when the remaining stem ends in a vowel (মামার, বাড়িতে), since after a
+ * consonant the same sound is part of the word itself (সুন্দর). `minStem`
+ * guards short words where the split is ambiguous (রাতে is রাত + ে, not রা + তে).
+ */
+const SUFFIXES: Array<{ suffix: string; afterVowel?: boolean; minStem?: number }> = [
+  { suffix: "গুলোকে" },
+  { suffix: "গুলোর" },
+  { suffix: "গুলিকে" },
+  { suffix: "গুলির" },
+  { suffix: "দেরকে" },
+  { suffix: "গুলো" },
+  { suffix: "গুলি" },
+  { suffix: "খানা" },
+  { suffix: "খানি" },
+  { suffix: "টিকে" },
+  { suffix: "টাকে" },
+  { suffix: "টির" },
+  { suffix: "টার" },
+  { suffix: "দের" },
+  { suffix: "েরা" },
+  { suffix: "টি" },
+  { suffix: "টা" },
+  { suffix: "কে" },
+  { suffix: "ের" },
+  { suffix: "তে", afterVowel: true, minStem: 3 },
+  { suffix: "য়", afterVowel: true, minStem: 3 },
+  { suffix: "রা", afterVowel: true },
+  { suffix: "র", afterVowel: true },
+  { suffix: "ে" },
+].map((rule) => ({ ...rule, suffix: rule.suffix.normalize("NFC") }));
+
+const MIN_STEM_LENGTH = 2;
+const MAX_STEM_PASSES = 2;
+
+const STOPWORD_LIST = [
+  // Bengali question words
+  "কি", "কী", "কে", "কাকে", "কার", "কারা", "কাদের", "কেন", "কোন", "কোনো", "কোনটি", "কোনটা", "কত", "কতটা", "কখন", "কোথায়", "কোথা", "কীভাবে", "কিভাবে", "কেমন",
+  // Pronouns and determiners
+  "আমি", "আমার", "আমাকে", "আমরা", "আমাদের", "তুমি", "তোমার", "তোমাকে", "আপনি", "আপনার", "আপনাকে", "সে", "তার", "তাঁর", "তাকে", "তাঁকে", "তিনি", "তারা", "তাদের", "তাঁদের", "এ", "এই", "এটা", "এটি", "এর", "একে", "ও", "ওই", "ওটা", "ওর", "সেই", "সেটা", "সেটি", "যে", "যা", "যিনি", "যার", "যাকে", "নিজের",
+  // Verbs and auxiliaries
+  "হয়", "হয়ে", "হয়েছে", "হয়েছিল", "হয়েছিলেন", "হবে", "হতে", "হলো", "হল", "ছিল", "ছিলেন", "আছে", "আছেন", "করে", "করা", "করেন", "করেছে", "করেছেন", "করেছিল", "বলা", "বলে", "বলেন", "বলেছেন",
+  // Conjunctions, postpositions and particles
+  "এবং", "ও", "আর", "বা", "অথবা", "কিন্তু", "তবে", "যদি", "তাহলে", "তাই", "না", "নয়", "নেই", "থেকে", "দিয়ে", "জন্য", "জন্যে", "সাথে", "সঙ্গে", "মধ্যে", "পর", "পরে", "আগে", "দ্বারা", "প্রতি", "একটি", "একজন", "এক", "খুব", "আরও", "ই",
+  // English
+  "a", "an", "the", "is", "are", "was", "were", "be", "been", "of", "in", "on", "at", "to", "for", "by", "with", "and", "or", "but", "not", "what", "who", "whom", "whose", "which", "when", "where", "why", "how", "does", "do", "did", "this", "that", "these", "those", "it", "its", "he", "she", "his", "her", "they", "their", "i", "you", "me", "my",
+];
+
+export const STOPWORDS: ReadonlySet<string> = new Set(STOPWORD_LIST.map((word) => normalizeBengaliText(word)));
+
+/**
+ * Normalize text for matching: NFC, zero-width removal, Bengali digits to ASCII, lowercase
+ */
+export function normalizeBengaliText(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/[\u200B-\u200D\uFEFF]/g, "")
+    .replace(/[\u09E6-\u09EF]/g, (digit) => String(BENGALI_DIGITS.indexOf(digit)))
+    .toLowerCase();
+}
+
+/**
+ * Split normalized text into Bengali/Latin/digit word tokens
+ */
+export function tokenizeBengali(text: string): string[] {
+  return normalizeBengaliText(text).match(/[\u0980-\u09FFa-z0-9]+/g) || [];
+}
+
+export function isStopword(token: string): boolean {
+  return STOPWORDS.has(token);
+}
+
+/**
+ * Light Bengali stemmer: strips up to two inflectional suffixes.
+ * Latin-script tokens are returned unchanged.
+ */
+export function stemBengaliWord(word: string): string {
+  if (!/[\u0980-\u09FF]/.test(word)) {
+    return word;
+  }
+
+  let stem = word;
+  for (let pass = 0; pass < MAX_STEM_PASSES; pass++) {
+    const stripped = stripSuffix(stem);
+    if (stripped === stem) break;
+    stem = stripped;
+  }
+  return stem;
+}
+
+function stripSuffix(word: string): string {
+  for (const { suffix, afterVowel, minStem = MIN_STEM_LENGTH } of SUFFIXES) {
+    if (!word.endsWith(suffix)) continue;
+
+    const stem = word.slice(0, -suffix.length);
+    if (stem.length < minStem) continue;
+    if (afterVowel && !VOWEL_PATTERN.test(stem)) continue;
+
+    return stem;
+  }
+  return word;
+}
+
+/**
+ * Full analysis chain used by the lexical index and keyword matching:
+ * normalize → tokenize → drop stopwords → stem
+ */
+export function analyzeText(text: string): string[] {
+  return tokenizeBengali(text)
+    .filter((token) => !isStopword(token))
+    .map(stemBengaliWord)
+    .filter((token) => token.length > 0);
+}
@@ -0,0 +1,106 @@
+import { RetrievedChunk } from "../types/retrieval.types";
+import { tokenizeBengali } from "./bengali-analyzer.utils";
+
+const SHINGLE_SIZE = 3;
+
+/**
+ * Word n-gram shingles of normalized text; shared shingles indicate literally repeated passages
+ */
+function buildShingles(text: string): Set<string> {
+  const tokens = tokenizeBengali(text);
+  const shingles = new Set<string>();
+
+  if (tokens.length < SHINGLE_SIZE) {
+    if (tokens.length > 0) {
+      shingles.add(tokens.join(" "));
+    }
+    return shingles;
+  }
+
+  for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+    shingles.add(tokens.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return shingles;
+}
+
+/**
+ * Overlap coefficient |A ∩ B| / min(|A|, |B|) of word shingles, 0-1.
+ * A chunk fully contained in another scores 1, as does an exact duplicate.
+ */
+function shingleOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const shingle of smaller) {
+    if (larger.has(shingle)) {
+      shared++;
+    }
+  }
+  return shared / smaller.size;
+}
+
+/**
+ * Text similarity between two chunks (0-1), based on shared word shingles
+ */
+export function chunkSimilarity(text1: string, text2: string): number {
+  return shingleOverlap(buildShingles(text1), buildShingles(text2));
+}
+
+/**
+ * Maximal marginal relevance selection:
+ *   mmr(d) = λ · relevance(d) - (1 - λ) · max similarity(d, selected)
+ * Relevance is the min-max normalized chunk score, so it works for any ranking stage.
+ * Candidates at or above redundancyThreshold similarity to a selected chunk are dropped.
+ * λ = 1 keeps the original ranking (only exact redundancy removal applies).
+ */
+export function maximalMarginalRelevance(
+  chunks: RetrievedChunk[],
+  k: number,
+  lambda: number = 0.7,
+  redundancyThreshold: number = 0.8
+): RetrievedChunk[] {
+  if (chunks.length === 0 || k <= 0) {
+    return [];
+  }
+
+  const scores = chunks.map((chunk) => chunk.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  const relevance = scores.map((score) => (range > 0 ? (score - min) / range : 1));
+  const shingles = chunks.map((chunk) => buildShingles(chunk.content));
+
+  // Highest similarity of each candidate to any selected chunk
+  const maxSimilarity = new Array<number>(chunks.length).fill(0);
+  const remaining = new Set(chunks.map((_, index) => index));
+  const selected: RetrievedChunk[] = [];
+
+  while (selected.length < k && remaining.size > 0) {
+    let bestIndex = -1;
+    let bestScore = -Infinity;
+
+    for (const index of remaining) {
+      const mmrScore = lambda * relevance[index] - (1 - lambda) * maxSimilarity[index];
+      if (mmrScore > bestScore) {
+        bestScore = mmrScore;
+        bestIndex = index;
+      }
+    }
+
+    remaining.delete(bestIndex);
+    selected.push({ ...chunks[bestIndex], mmrScore: bestScore });
+
+    for (const index of remaining) {
+      const similarity = shingleOverlap(shingles[bestIndex], shingles[index]);
+      if (similarity >= redundancyThreshold) {
+        remaining.delete(index);
+      } else if (similarity > maxSimilarity[index]) {
+        maxSimilarity[index] = similarity;
+      }
+    }
+  }
+
+  return selected;
+}
@@ -0,0 +1,49 @@
+/**
+ * Rough token estimate for embedding budgets without a tokenizer dependency.
+ * Bengali and other non-Latin scripts tokenize close to one token per character
+ * with OpenAI tokenizers, while ASCII text averages about four characters per token.
+ */
+export function estimateTokenCount(text: string): number {
+  let asciiChars = 0;
+  let otherChars = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) {
+      asciiChars++;
+    } else {
+      otherChars++;
+    }
+  }
+
+  return Math.ceil(asciiChars / 4) + otherChars;
+}
+
+/**
+ * Pack inputs into batches that stay within a token and item budget.
+ * Returns batches of input indices so results can be written back in order.
+ * An input larger than the token budget gets a batch of its own.
+ */
+export function packEmbeddingBatches(inputs: string[], maxBatchTokens: number, maxBatchItems: number): number[][] {
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let currentTokens = 0;
+
+  inputs.forEach((input, index) => {
+    const tokens = estimateTokenCount(input);
+
+    if (current.length > 0 && (currentTokens + tokens > maxBatchTokens || current.length >= maxBatchItems)) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+
+    current.push(index);
+    currentTokens += tokens;
+  });
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
@@ -0,0 +1,96 @@
+import { RetrievedChunk, RetrievalSource } from "../types/retrieval.types";
+
+export interface RankedList {
+  source: RetrievalSource;
+  items: RetrievedChunk[];
+  /** Weight used by weighted fusion (ignored by RRF) */
+  weight?: number;
+}
+
+/**
+ * Reciprocal rank fusion: score(d) = Σ 1 / (k + rank_i(d)).
+ * Rank-based, so it needs no score calibration between lexical and semantic lists.
+ */
+export function reciprocalRankFusion(lists: RankedList[], k: number = 60): RetrievedChunk[] {
+  const fused = new Map<string, RetrievedChunk>();
+
+  for (const list of lists) {
+    list.items.forEach((item, rank) => {
+      const contribution = 1 / (k + rank + 1);
+      mergeInto(fused, item, list.source, contribution);
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Weighted score fusion over min-max normalized scores of each list
+ */
+export function weightedScoreFusion(lists: RankedList[]): RetrievedChunk[] {
+  const fused = new Map<string, RetrievedChunk>();
+
+  for (const list of lists) {
+    const scores = list.items.map((item) => item.score);
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+    const weight = list.weight ?? 1;
+
+    list.items.forEach((item) => {
+      const normalized = max > min ? (item.score - min) / (max - min) : 1;
+      mergeInto(fused, item, list.source, weight * normalized);
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Accumulate a list item's contribution, keeping per-source scores and provenance
+ */
+function mergeInto(fused: Map<string, RetrievedChunk>, item: RetrievedChunk, source: RetrievalSource, contribution: number): void {
+  const existing = fused.get(item.id);
+
+  if (existing) {
+    existing.score += contribution;
+    if (!existing.sources.includes(source)) {
+      existing.sources.push(source);
+    }
+    existing.semanticScore = existing.semanticScore ?? item.semanticScore;
+    existing.lexicalScore = existing.lexicalScore ?? item.lexicalScore;
+    existing.metadata = existing.metadata ?? item.metadata;
+  } else {
+    fused.set(item.id, { ...item, score: contribution, sources: [source] });
+  }
+}
+
+/**
+ * Merge result lists retrieved for several query variants with RRF,
+ * deduplicating by chunk id and recording which variants found each chunk
+ */
+export function fuseQueryVariantResults(lists: Array<{ label: string; chunks: RetrievedChunk[] }>, k: number = 60): RetrievedChunk[] {
+  const fused = new Map<string, RetrievedChunk>();
+
+  for (const { label, chunks } of lists) {
+    chunks.forEach((chunk, rank) => {
+      const contribution = 1 / (k + rank + 1);
+      const existing = fused.get(chunk.id);
+
+      if (existing) {
+        existing.score += contribution;
+        existing.matchedQueries = [...(existing.matchedQueries || []), label];
+        chunk.sources.forEach((source) => {
+          if (!existing.sources.includes(source)) {
+            existing.sources.push(source);
+          }
+        });
+        existing.semanticScore = Math.max(existing.semanticScore ?? 0, chunk.semanticScore ?? 0) || undefined;
+        existing.lexicalScore = Math.max(existing.lexicalScore ?? 0, chunk.lexicalScore ?? 0) || undefined;
+      } else {
+        fused.set(chunk.id, { ...chunk, sources: [...chunk.sources], score: contribution, matchedQueries: [label] });
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,114 @@
+/**
+ * Grapheme-cluster helpers so text is never cut inside a rendered character.
+ *
+ * A Bengali cluster is a base letter with its vowel signs and other marks (কি, কাঁ)
+ * and every consonant joined to it by hasanta (ক্ষ, স্ত্র, ন্য). Cutting inside
+ * one leaves a dangling kar or hasanta that renders as a broken glyph.
+ */
+
+const HASANTA = "\u09CD";
+const ZWJ = "\u200D";
+const ZWNJ = "\u200C";
+const BENGALI_CONSONANT = /[\u0995-\u09B9\u09CE\u09DC-\u09DF\u09F0\u09F1]/;
+const COMBINING = /[\p{M}\u200C\u200D]/u;
+
+/**
+ * Whether a string may be cut at `index` without splitting a grapheme cluster
+ */
+export function isGraphemeBoundary(text: string, index: number): boolean {
+  if (index <= 0 || index >= text.length) {
+    return true;
+  }
+
+  const previous = text[index - 1];
+  const current = text[index];
+
+  if (previous === "\r" && current === "\n") {
+    return false;
+  }
+  // Inside a surrogate pair
+  const code = text.charCodeAt(index);
+  if (code >= 0xdc00 && code <= 0xdfff) {
+    return false;
+  }
+  // Vowel signs, chandrabindu, nukta, hasanta and joiners attach to what precedes them
+  if (COMBINING.test(current)) {
+    return false;
+  }
+  if (previous === ZWJ) {
+    return false;
+  }
+  // Consonant after hasanta (optionally via ZWNJ) belongs to the same conjunct
+  if (BENGALI_CONSONANT.test(current) && (previous === HASANTA || (previous === ZWNJ && text[index - 2] === HASANTA))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Nearest grapheme boundary at or before `index`
+ */
+export function floorGraphemeBoundary(text: string, index: number): number {
+  let boundary = Math.max(0, Math.min(index, text.length));
+  while (!isGraphemeBoundary(text, boundary)) {
+    boundary--;
+  }
+  return boundary;
+}
+
+/**
+ * Split text into grapheme clusters
+ */
+export function splitGraphemes(text: string): string[] {
+  const clusters: string[] = [];
+  let start = 0;
+
+  for (let i = 1; i <= text.length; i++) {
+    if (isGraphemeBoundary(text, i)) {
+      clusters.push(text.slice(start, i));
+      start = i;
+    }
+  }
+
+  return clusters;
+}
+
+/**
+ * Cut text to at most `maxLength` UTF-16 units, backing off to the previous grapheme boundary
+ */
+export function truncateGraphemes(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return text.slice(0, floorGraphemeBoundary(text, maxLength));
+}
+
+/**
+ * End offset of the longest prefix of text[start, end) whose size is within `limit`,
+ * cut between grapheme clusters. Always covers at least one cluster so callers make progress.
+ */
+export function fitGraphemePrefix(text: string, start: number, end: number, limit: number, measure: (text: string) => number): number {
+  const boundaries: number[] = [];
+  for (let i = start + 1; i <= end; i++) {
+    if (i === end || isGraphemeBoundary(text, i)) {
+      boundaries.push(i);
+    }
+  }
+
+  // Sizes grow with length, so binary search the last boundary that still fits
+  let low = 0;
+  let high = boundaries.length - 1;
+  let best = boundaries[0] ?? end;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (measure(text.slice(start, boundaries[mid])) <= limit) {
+      best = boundaries[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return best;
+}
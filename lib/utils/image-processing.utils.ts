@@ -0,0 +1,159 @@
+/**
+ * Pixel-level helpers for OCR preprocessing. Images are single-channel 8-bit buffers
+ * in row-major order; binary images use 0 for ink and 255 for paper.
+ */
+
+/**
+ * Global threshold that best separates ink from paper (Otsu's method)
+ */
+export function otsuThreshold(pixels: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < pixels.length; i++) {
+    histogram[pixels[i]]++;
+  }
+
+  let totalSum = 0;
+  for (let value = 0; value < 256; value++) {
+    totalSum += value * histogram[value];
+  }
+
+  let backgroundWeight = 0;
+  let backgroundSum = 0;
+  let bestThreshold = 127;
+  let bestVariance = -1;
+  for (let value = 0; value < 256; value++) {
+    backgroundWeight += histogram[value];
+    if (backgroundWeight === 0) continue;
+    const foregroundWeight = pixels.length - backgroundWeight;
+    if (foregroundWeight === 0) break;
+
+    backgroundSum += value * histogram[value];
+    const meanDifference = backgroundSum / backgroundWeight - (totalSum - backgroundSum) / foregroundWeight;
+    const variance = backgroundWeight * foregroundWeight * meanDifference * meanDifference;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = value;
+    }
+  }
+
+  return bestThreshold;
+}
+
+/**
+ * Binarize with one threshold for the whole image
+ */
+export function globalBinarize(pixels: Uint8Array, threshold: number = otsuThreshold(pixels)): Uint8Array {
+  const binary = new Uint8Array(pixels.length);
+  for (let i = 0; i < pixels.length; i++) {
+    binary[i] = pixels[i] <= threshold ? 0 : 255;
+  }
+  return binary;
+}
+
+/**
+ * Binarize against the mean of each pixel's neighbourhood (Bradley's method), so text
+ * on an uneven or gray background is kept while the background drops out.
+ * A pixel is ink when it is `sensitivity` darker than its local mean.
+ */
+export function adaptiveBinarize(pixels: Uint8Array, width: number, height: number, windowSize: number, sensitivity: number = 0.15): Uint8Array {
+  // Integral image in doubles: sums reach 255 * pixel count, which passes 2^32 on upscaled renders
+  // (about 16.8M pixels, e.g. 2480x3508 at OCR_UPSCALE 1.42) but stays exact well beyond that
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += pixels[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(1, Math.floor(windowSize / 2));
+  const binary = new Uint8Array(pixels.length);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - half);
+    const bottom = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - half);
+      const right = Math.min(width, x + half + 1);
+      const area = (bottom - top) * (right - left);
+      const sum = integral[bottom * (width + 1) + right] - integral[top * (width + 1) + right] - integral[bottom * (width + 1) + left] + integral[top * (width + 1) + left];
+      binary[y * width + x] = pixels[y * width + x] * area <= sum * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+
+  return binary;
+}
+
+/**
+ * Skew of the text lines in degrees (positive = clockwise), found by the rotation whose
+ * horizontal projection of ink pixels is most sharply peaked
+ */
+export function estimateSkewAngle(binary: Uint8Array, width: number, height: number, maxAngle: number = 5, step: number = 0.25): number {
+  const inkX: number[] = [];
+  const inkY: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (binary[y * width + x] === 0) {
+        inkX.push(x);
+        inkY.push(y);
+      }
+    }
+  }
+  if (inkX.length === 0) {
+    return 0;
+  }
+
+  const diagonal = Math.ceil(Math.sqrt(width * width + height * height));
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -maxAngle; angle <= maxAngle + 1e-9; angle += step) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Float64Array(diagonal * 2);
+    for (let i = 0; i < inkX.length; i++) {
+      rows[Math.round(inkY[i] * cos - inkX[i] * sin) + diagonal]++;
+    }
+
+    let score = 0;
+    for (let i = 1; i < rows.length; i++) {
+      const difference = rows[i] - rows[i - 1];
+      score += difference * difference;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+}
+
+/**
+ * Bounding box of the ink, ignoring rows and columns with only a few specks of noise
+ */
+export function findContentBounds(binary: Uint8Array, width: number, height: number, minInk: number = 3): { left: number; top: number; width: number; height: number } | null {
+  const rowInk = new Uint32Array(height);
+  const columnInk = new Uint32Array(width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (binary[y * width + x] === 0) {
+        rowInk[y]++;
+        columnInk[x]++;
+      }
+    }
+  }
+
+  const top = rowInk.findIndex((count) => count >= minInk);
+  const left = columnInk.findIndex((count) => count >= minInk);
+  if (top < 0 || left < 0) {
+    return null;
+  }
+
+  let bottom = height - 1;
+  while (rowInk[bottom] < minInk) bottom--;
+  let right = width - 1;
+  while (columnInk[right] < minInk) right--;
+
+  return { left, top, width: right - left + 1, height: bottom - top + 1 };
+}
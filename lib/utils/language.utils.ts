@@ -1,3 +1,8 @@
+import { analyzeText } from "./bengali-analyzer.utils";
+import { isRomanizedBengali } from "./transliteration.utils";
+import { QueryLanguage } from "../types/language.types";
+import { LANGUAGE_CONFIG } from "../../config/language";
+
 /**
  * Detect if text is primarily Bengali
  */
@@ -8,17 +13,37 @@ export function isBengali(text: string): boolean {
 }
 
 /**
- * Get system prompt based on language detection
+ * Classify a message as Bengali, romanized Bengali (Latin script) or English
+ */
+export function detectQueryLanguage(text: string): QueryLanguage {
+  if (isBengali(text)) {
+    return "bengali";
+  }
+  return LANGUAGE_CONFIG.romanizedBengali && isRomanizedBengali(text) ? "romanized-bengali" : "english";
+}
+
+/**
+ * Get system prompt based on language detection.
+ * Romanized Bengali questions are answered in Bengali script by default, since
+ * the context is Bengali; ROMANIZED_REPLY_SCRIPT=latin answers in romanized Bengali.
  */
 export function getSystemPrompt(text: string): string {
-  const isUserBengali = isBengali(text);
+  const language = detectQueryLanguage(text);
+
+  if (language === "romanized-bengali") {
+    return LANGUAGE_CONFIG.romanizedReplyScript === "latin"
+      ? `আপনি একটি সহায়ক AI সহায়ক। আপনাকে দেওয়া প্রসঙ্গের ভিত্তিতে প্রশ্নের উত্তর দিন। যদি প্রসঙ্গে উত্তর না থাকে, তাহলে বিনয়ের সাথে বলুন যে আপনি জানেন না। ব্যবহারকারী ইংরেজি অক্ষরে বাংলা লিখছেন, তাই উত্তরও ইংরেজি অক্ষরে বাংলায় (যেমন "Anupam er mama chilen...") দিন।`
+      : `আপনি একটি সহায়ক AI সহায়ক। আপনাকে দেওয়া প্রসঙ্গের ভিত্তিতে প্রশ্নের উত্তর দিন। যদি প্রসঙ্গে উত্তর না থাকে, তাহলে বিনয়ের সাথে বলুন যে আপনি জানেন না। ব্যবহারকারী ইংরেজি অক্ষরে বাংলা লিখলেও সবসময় বাংলা লিপিতে উত্তর দিন।`;
+  }
 
-  return isUserBengali ? `আপনি একটি সহায়ক AI সহায়ক। আপনাকে দেওয়া প্রসঙ্গের ভিত্তিতে প্রশ্নের উত্তর দিন। যদি প্রসঙ্গে উত্তর না থাকে, তাহলে বিনয়ের সাথে বলুন যে আপনি জানেন না। সবসময় বাংলায় উত্তর দিন।` : `You are a helpful AI assistant. Answer questions based on the provided context. If the answer is not in the context, politely say you don't know. Always respond in English.`;
+  return language === "bengali" ? `আপনি একটি সহায়ক AI সহায়ক। আপনাকে দেওয়া প্রসঙ্গের ভিত্তিতে প্রশ্নের উত্তর দিন। যদি প্রসঙ্গে উত্তর না থাকে, তাহলে বিনয়ের সাথে বলুন যে আপনি জানেন না। সবসময় বাংলায় উত্তর দিন।` : `You are a helpful AI assistant. Answer questions based on the provided context. If the answer is not in the context, politely say you don't know. Always respond in English.`;
 }
 
 /**
- * Extract Bengali keywords from text for keyword-based search fallback
+ * Extract Bengali keywords from text for keyword-based search fallback.
+ * Returns analyzed terms (stopwords removed, suffixes stripped); match them
+ * against `analyzeText` output of the document rather than raw substrings.
  */
 export function extractBengaliKeywords(text: string): string[] {
-  return text.match(/[\u0980-\u09FF]+/g) || [];
+  return Array.from(new Set(analyzeText(text).filter((term) => /[\u0980-\u09FF]/.test(term))));
 }
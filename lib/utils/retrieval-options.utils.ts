@@ -0,0 +1,136 @@
+import { QueryExpansionMode, RerankerType, RetrievalOptions } from "../types/retrieval.types";
+import { MetadataFilter } from "../types/vector-store.types";
+import { DocumentType, SectionType } from "../types/pdf-processing.types";
+import { SECTION_TYPES } from "./section-detection.utils";
+
+const EXPANSION_MODES: QueryExpansionMode[] = ["none", "multi-query", "hyde", "multi-query+hyde"];
+const RERANKER_TYPES: RerankerType[] = ["none", "llm", "lexical"];
+
+/**
+ * Validate per-request retrieval options from an API body.
+ * Returns the options, or an error message describing the invalid field.
+ */
+export function parseRetrievalOptions(input: unknown): { options: RetrievalOptions; error?: string } {
+  if (input === undefined || input === null) {
+    return { options: {} };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { options: {}, error: "retrievalOptions must be an object" };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const options: RetrievalOptions = {};
+
+  if (raw.topK !== undefined) {
+    if (typeof raw.topK !== "number" || raw.topK < 1 || raw.topK > 50) {
+      return { options: {}, error: "retrievalOptions.topK must be a number between 1 and 50" };
+    }
+    options.topK = Math.floor(raw.topK);
+  }
+
+  if (raw.expansion !== undefined) {
+    if (!EXPANSION_MODES.includes(raw.expansion as QueryExpansionMode)) {
+      return { options: {}, error: `retrievalOptions.expansion must be one of: ${EXPANSION_MODES.join(", ")}` };
+    }
+    options.expansion = raw.expansion as QueryExpansionMode;
+  }
+
+  if (raw.reranker !== undefined) {
+    if (!RERANKER_TYPES.includes(raw.reranker as RerankerType)) {
+      return { options: {}, error: `retrievalOptions.reranker must be one of: ${RERANKER_TYPES.join(", ")}` };
+    }
+    options.reranker = raw.reranker as RerankerType;
+  }
+
+  if (raw.rerankTopN !== undefined) {
+    if (typeof raw.rerankTopN !== "number" || raw.rerankTopN < 1) {
+      return { options: {}, error: "retrievalOptions.rerankTopN must be a positive number" };
+    }
+    options.rerankTopN = Math.floor(raw.rerankTopN);
+  }
+
+  if (raw.mmrLambda !== undefined) {
+    if (typeof raw.mmrLambda !== "number" || raw.mmrLambda < 0 || raw.mmrLambda > 1) {
+      return { options: {}, error: "retrievalOptions.mmrLambda must be a number between 0 and 1" };
+    }
+    options.mmrLambda = raw.mmrLambda;
+  }
+
+  if (raw.neighborWindow !== undefined) {
+    if (typeof raw.neighborWindow !== "number" || raw.neighborWindow < 0 || raw.neighborWindow > 3) {
+      return { options: {}, error: "retrievalOptions.neighborWindow must be a number between 0 and 3" };
+    }
+    options.neighborWindow = Math.floor(raw.neighborWindow);
+  }
+
+  if (raw.crossLingual !== undefined) {
+    if (typeof raw.crossLingual !== "boolean") {
+      return { options: {}, error: "retrievalOptions.crossLingual must be a boolean" };
+    }
+    options.crossLingual = raw.crossLingual;
+  }
+
+  if (raw.filter !== undefined) {
+    const { filter, error } = parseMetadataFilter(raw.filter);
+    if (error) {
+      return { options: {}, error: `retrievalOptions.${error}` };
+    }
+    options.filter = filter;
+  }
+
+  return { options };
+}
+
+/**
+ * Validate a metadata filter ({ source, page_start, page_end, chapter, section_type, section_title, doc_type }) from an API body.
+ * An empty filter is returned as undefined.
+ */
+export function parseMetadataFilter(input: unknown): { filter?: MetadataFilter; error?: string } {
+  if (input === undefined || input === null) {
+    return {};
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "filter must be an object" };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filter: MetadataFilter = {};
+
+  for (const field of ["source", "chapter", "section_title"] as const) {
+    if (raw[field] !== undefined) {
+      if (typeof raw[field] !== "string" || !(raw[field] as string).trim()) {
+        return { error: `filter.${field} must be a non-empty string` };
+      }
+      filter[field] = (raw[field] as string).trim();
+    }
+  }
+
+  if (raw.section_type !== undefined) {
+    if (!SECTION_TYPES.includes(raw.section_type as SectionType)) {
+      return { error: `filter.section_type must be one of: ${SECTION_TYPES.join(", ")}` };
+    }
+    filter.section_type = raw.section_type as SectionType;
+  }
+
+  if (raw.doc_type !== undefined) {
+    if (raw.doc_type !== "text" && raw.doc_type !== "mcq") {
+      return { error: 'filter.doc_type must be "text" or "mcq"' };
+    }
+    filter.doc_type = raw.doc_type as DocumentType;
+  }
+
+  for (const field of ["page_start", "page_end"] as const) {
+    if (raw[field] !== undefined) {
+      if (typeof raw[field] !== "number" || !Number.isInteger(raw[field]) || (raw[field] as number) < 1) {
+        return { error: `filter.${field} must be a positive integer` };
+      }
+      filter[field] = raw[field] as number;
+    }
+  }
+
+  if (filter.page_start !== undefined && filter.page_end !== undefined && filter.page_start > filter.page_end) {
+    return { error: "filter.page_start must not be greater than filter.page_end" };
+  }
+
+  return { filter: Object.keys(filter).length > 0 ? filter : undefined };
+}
@@ -0,0 +1,91 @@
+import OpenAI from "openai";
+import { Logger } from "./error-handling.utils";
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  label?: string;
+}
+
+/**
+ * HTTP status of an API error, if the error carries one (OpenAI SDK, fetch wrappers)
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Rate limits, timeouts and server errors are worth retrying; client errors are not
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status === undefined) {
+    // Dropped connections and timeouts from the OpenAI SDK (APIConnectionTimeoutError is a subclass)
+    if (error instanceof OpenAI.APIConnectionError) {
+      return true;
+    }
+    // Other network failures (ECONNRESET, fetch failed) have no status either
+    return error instanceof Error && /network|timeout|ECONNRESET|ETIMEDOUT|fetch failed/i.test(error.message);
+  }
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Delay requested by the server via Retry-After / retry-after-ms headers, in milliseconds
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: unknown })?.headers;
+  if (!headers) return undefined;
+
+  const read = (name: string): string | null | undefined => {
+    if (typeof (headers as Headers).get === "function") {
+      return (headers as Headers).get(name);
+    }
+    return (headers as Record<string, string | undefined>)[name];
+  };
+
+  const retryAfterMs = read("retry-after-ms");
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = read("retry-after");
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  // Retry-After may also be an HTTP date
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Run an async operation, retrying retryable errors with exponential backoff and jitter.
+ * A server-provided Retry-After takes precedence over the computed delay, capped at maxDelayMs.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { maxRetries = 5, baseDelayMs = 1000, maxDelayMs = 60000, label = "operation" } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+      const retryAfter = getRetryAfterMs(error);
+      // Honor Retry-After, but never wait longer than maxDelayMs
+      const delay = retryAfter !== undefined ? Math.min(maxDelayMs, retryAfter) : backoff / 2 + Math.random() * (backoff / 2);
+
+      Logger.warning(`${label} failed (status ${getErrorStatus(error) ?? "n/a"}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { detectSections } from "./section-detection.utils";
+
+const PROSE = "আজ আমার বয়স সাতাশ মাত্র। এ জীবনটা না দৈর্ঘ্যের হিসাবে বড়, না গুণের হিসাবে। তবু ইহার একটু বিশেষ মূল্য আছে। ".repeat(3);
+
+function sectionsOf(text: string) {
+  return detectSections(text).map((section) => ({ type: section.type, title: section.title }));
+}
+
+describe("detectSections", () => {
+  it("does not treat glossary headwords as lesson titles", () => {
+    const text = [
+      "অপরিচিতা",
+      PROSE,
+      "শব্দার্থ ও টীকা",
+      "মাকাল ফল",
+      "দেখতে সুন্দর কিন্তু ভেতরে অসার।",
+      "পণ",
+      "বিয়েতে বরপক্ষের দাবি করা অর্থ।",
+      "লেখক-পরিচিতি",
+      "রবীন্দ্রনাথ ঠাকুর ১৮৬১ সালে কলকাতার জোড়াসাঁকোয় জন্মগ্রহণ করেন।",
+      "বহুনির্বাচনী প্রশ্ন",
+      "১. অনুপমের বয়স কত?",
+    ].join("\n\n");
+
+    expect(sectionsOf(text)).toEqual([
+      { type: "lesson", title: "অপরিচিতা" },
+      { type: "glossary", title: "অপরিচিতা" },
+      { type: "author-bio", title: "অপরিচিতা" },
+      { type: "exercise", title: "অপরিচিতা" },
+    ]);
+  });
+
+  it("starts the next lesson after an exercise when its title opens a prose passage", () => {
+    const text = ["অপরিচিতা", PROSE, "বহুনির্বাচনী প্রশ্ন", "১. অনুপমের বয়স কত?", "সোনার তরী", PROSE].join("\n\n");
+
+    expect(sectionsOf(text)).toEqual([
+      { type: "lesson", title: "অপরিচিতা" },
+      { type: "exercise", title: "অপরিচিতা" },
+      { type: "lesson", title: "সোনার তরী" },
+    ]);
+  });
+});
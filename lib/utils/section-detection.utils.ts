@@ -0,0 +1,152 @@
+import { SectionType, TextSection } from "../types/pdf-processing.types";
+
+/**
+ * Section headings used in the textbook. OCR output varies in the joiner between
+ * words (hyphen, dash or space) and may add a trailing colon or visarga.
+ */
+const SECTION_HEADINGS: Array<{ type: SectionType; pattern: RegExp }> = [
+  { type: "objective", pattern: /^পাঠের\s*উদ্দেশ্য/ },
+  { type: "introduction", pattern: /^পাঠ[\s\-–—]*পরিচিতি/ },
+  { type: "author-bio", pattern: /^(লেখক|কবি)[\s\-–—]*পরিচিতি/ },
+  { type: "glossary", pattern: /^শব্দার্থ\s*ও\s*টীকা/ },
+  { type: "exercise", pattern: /^(অনুশীলনী|বহুনির্বাচনী\s*প্রশ্ন|সৃজনশীল\s*প্রশ্ন|জ্ঞানমূলক\s*প্রশ্ন|অনুধাবনমূলক\s*প্রশ্ন)/ },
+];
+
+export const SECTION_TYPES: SectionType[] = ["lesson", "objective", "introduction", "author-bio", "glossary", "exercise"];
+
+const MAX_TITLE_LENGTH = 40;
+const MAX_TITLE_WORDS = 5;
+const MAX_TITLE_REPEATS = 2;
+/** Inside glossaries and exercises a title must open prose at least this long (headwords and answers do not) */
+const MIN_LESSON_PARAGRAPH_LENGTH = 200;
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const raw of text.split("\n")) {
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    lines.push({ text: trimmed, start: start + leading, end: start + leading + trimmed.length });
+    start += raw.length + 1;
+  }
+  return lines;
+}
+
+/**
+ * Match a line against the known section headings
+ */
+export function matchSectionHeading(line: string): SectionType | null {
+  const normalized = line.trim().replace(/[:ঃ]+$/, "").trim();
+  if (normalized.length > MAX_TITLE_LENGTH * 2) {
+    return null;
+  }
+  const heading = SECTION_HEADINGS.find(({ pattern }) => pattern.test(normalized));
+  return heading ? heading.type : null;
+}
+
+/**
+ * A lesson title is a short Bengali line standing on its own between blank lines,
+ * without sentence punctuation (e.g. "অপরিচিতা")
+ */
+function isLessonTitle(lines: Line[], index: number): boolean {
+  const line = lines[index].text;
+  const isolated = (index === 0 || lines[index - 1].text === "") && (index === lines.length - 1 || lines[index + 1].text === "");
+
+  return (
+    isolated &&
+    line.length > 1 &&
+    line.length <= MAX_TITLE_LENGTH &&
+    line.split(/\s+/).length <= MAX_TITLE_WORDS &&
+    /[\u0980-\u09FF]/.test(line) &&
+    !/[।?!:;,.ঃ]/.test(line) &&
+    !/^[\d\u09E6-\u09EF\s\-–—]+$/.test(line)
+  );
+}
+
+/**
+ * Length of the paragraph that follows a title, skipping one title-like byline.
+ * A paragraph is the run of non-blank lines up to the next blank line.
+ */
+function followingParagraphLength(lines: Line[], index: number): number {
+  let next = index + 1;
+  const skipBlank = () => {
+    while (next < lines.length && !lines[next].text) next++;
+  };
+
+  skipBlank();
+  if (next < lines.length && isLessonTitle(lines, next)) {
+    next++;
+    skipBlank();
+  }
+
+  let length = 0;
+  while (next < lines.length && lines[next].text) {
+    length += lines[next].text.length;
+    next++;
+  }
+  return length;
+}
+
+/**
+ * Split the document into textbook sections. Text before the first heading, and
+ * the text following a lesson title, is the lesson body ("lesson").
+ * Sections cover the whole text without gaps, in order.
+ */
+export function detectSections(text: string): TextSection[] {
+  const lines = splitLines(text);
+
+  // Running page headers (book or chapter name on every page) look like titles; ignore repeated ones
+  const titleCounts = new Map<string, number>();
+  lines.forEach((line, index) => {
+    if (line.text && !matchSectionHeading(line.text) && isLessonTitle(lines, index)) {
+      titleCounts.set(line.text, (titleCounts.get(line.text) || 0) + 1);
+    }
+  });
+
+  const sections: TextSection[] = [];
+  let current: TextSection = { type: "lesson", start: 0, end: text.length };
+  let lessonTitle: string | undefined;
+
+  const startSection = (type: SectionType, start: number) => {
+    current.end = start;
+    if (current.end > current.start) {
+      sections.push(current);
+    }
+    current = { type, title: lessonTitle, start, end: text.length };
+  };
+
+  let previousWasTitle = false;
+  lines.forEach((line, index) => {
+    if (!line.text) return;
+
+    const headingType = matchSectionHeading(line.text);
+    let isTitle = !headingType && isLessonTitle(lines, index) && (titleCounts.get(line.text) || 0) <= MAX_TITLE_REPEATS;
+
+    // Glossary headwords and exercise lines stand alone too; only a title opening a prose passage starts the next lesson
+    if (isTitle && !previousWasTitle && (current.type === "glossary" || current.type === "exercise")) {
+      isTitle = followingParagraphLength(lines, index) >= MIN_LESSON_PARAGRAPH_LENGTH;
+    }
+
+    if (headingType) {
+      startSection(headingType, line.start);
+    } else if (isTitle && !previousWasTitle) {
+      lessonTitle = line.text;
+      startSection("lesson", line.start);
+    }
+    // A second title-like line right after a title is the author byline, not a new lesson
+    previousWasTitle = isTitle;
+  });
+
+  current.end = text.length;
+  if (current.end > current.start || sections.length === 0) {
+    sections.push(current);
+  }
+
+  return sections;
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { mergeOverlappingText } from "./text-processing.utils";
+import { TextChunkingService } from "../services/text-chunking.service";
+
+// OCR output: every printed line ends with a line break, sentences run across lines
+const LINES = Array.from({ length: 40 }, (_, index) => `আজ আমার বয়স সাতাশ মাত্র বাক্য ${index + 1} এর প্রথম অংশ এবং\nতার পরের লাইনে বাকি অংশ লেখা আছে।`);
+const TEXT = LINES.join("\n");
+
+describe("mergeOverlappingText", () => {
+  it("drops the overlap between neighbouring chunks of multi-line text", () => {
+    const chunks = new TextChunkingService().chunkTextWithPages(TEXT, [], { chunkSize: 400, overlap: 120, minChunkSize: 10, structureAware: false, verseAware: false });
+    expect(chunks.length).toBeGreaterThan(2);
+
+    const merged = chunks.map((chunk) => chunk.content).reduce((passage, content) => mergeOverlappingText(passage, content));
+    const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+
+    expect(normalize(merged)).toBe(normalize(TEXT));
+  });
+
+  it("keeps the line breaks of the first chunk", () => {
+    expect(mergeOverlappingText("প্রথম লাইনের শেষ অংশ\nদ্বিতীয় লাইনের শব্দগুলো", "শেষ অংশ দ্বিতীয় লাইনের শব্দগুলো\nএবং আরও কিছু", 400, 10)).toBe("প্রথম লাইনের শেষ অংশ\nদ্বিতীয় লাইনের শব্দগুলো\nএবং আরও কিছু");
+  });
+});
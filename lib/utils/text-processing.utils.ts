@@ -1,4 +1,5 @@
 import { Logger } from "./error-handling.utils";
+import { PageSpan, TextSpan } from "../types/pdf-processing.types";
 
 /**
  * Advanced Bengali text cleaning and normalization
@@ -102,6 +103,61 @@ export function splitIntoSentences(text: string): string[] {
   return text.split(/(?<=[।.!?])\s+/).filter((sentence) => sentence.trim().length > 0);
 }
 
+/**
+ * Split text into sentences with their character offsets; offsets exclude surrounding whitespace
+ */
+export function splitIntoSentenceSpans(text: string): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const pattern = /[^\s][\s\S]*?(?:[।.!?](?=\s)|$)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const sentence = match[0].trimEnd();
+    if (sentence.length > 0) {
+      spans.push({ text: sentence, start: match.index, end: match.index + sentence.length });
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Join page texts into one document ("\n\n" between pages) and record each page's character range
+ */
+export function buildPagedText(pages: Array<{ page: number; text: string }>): { text: string; pageSpans: PageSpan[] } {
+  let text = "";
+  const pageSpans: PageSpan[] = [];
+
+  for (const { page, text: pageText } of pages) {
+    pageSpans.push({ page, start: text.length, end: text.length + pageText.length });
+    text += pageText + "\n\n";
+  }
+
+  return { text, pageSpans };
+}
+
+/**
+ * Pages covered by the character range [start, end), or undefined when no page spans are known
+ */
+export function findPageRange(pageSpans: PageSpan[], start: number, end: number): { pageStart: number; pageEnd: number } | undefined {
+  const covered = pageSpans.filter((span) => span.start < end && span.end > start);
+  if (covered.length === 0) {
+    return undefined;
+  }
+  return { pageStart: covered[0].page, pageEnd: covered[covered.length - 1].page };
+}
+
+/**
+ * Blank out character ranges with spaces (newlines kept), so offsets into the text stay valid
+ */
+export function maskRanges(text: string, ranges: Array<{ start: number; end: number }>): string {
+  let masked = text;
+  for (const { start, end } of ranges) {
+    masked = masked.slice(0, start) + masked.slice(start, end).replace(/[^\n]/g, " ") + masked.slice(end);
+  }
+  return masked;
+}
+
 /**
  * Calculate text overlap between two strings (simple character-based)
  */
@@ -120,6 +176,43 @@ export function calculateTextOverlap(text1: string, text2: string): number {
   return maxOverlap;
 }
 
+/**
+ * Join two consecutive chunks, dropping the text the second one repeats from the end of the first.
+ * Whitespace is compared collapsed, since a chunk's overlap is rebuilt from words and loses the
+ * line breaks the end of the previous chunk still has. Falls back to a plain join when no
+ * overlap of at least minOverlap characters is found.
+ */
+export function mergeOverlappingText(first: string, second: string, maxOverlap: number = 400, minOverlap: number = 20): string {
+  const head = first.trimEnd();
+  const tail = second.trimStart();
+  const normalizedHead = head.replace(/\s+/g, " ");
+  const normalizedSecond = tail.replace(/\s+/g, " ");
+  const limit = Math.min(maxOverlap, normalizedHead.length, normalizedSecond.length);
+
+  for (let length = limit; length >= minOverlap; length--) {
+    if (normalizedHead.endsWith(normalizedSecond.substring(0, length))) {
+      return head + tail.substring(collapsedOffset(tail, length));
+    }
+  }
+
+  return `${first} ${second}`;
+}
+
+/**
+ * Offset in `text` after the first `length` characters of its whitespace-collapsed form
+ */
+function collapsedOffset(text: string, length: number): number {
+  let offset = 0;
+  for (let count = 0; count < length && offset < text.length; count++) {
+    if (/\s/.test(text[offset])) {
+      while (offset < text.length && /\s/.test(text[offset])) offset++;
+    } else {
+      offset++;
+    }
+  }
+  return offset;
+}
+
 /**
  * Check if text contains meaningful Bengali content
  */
@@ -0,0 +1,58 @@
+import { TextLayerAssessment } from "../types/pdf-processing.types";
+
+/** Pages with less text than this are treated as empty (same threshold as OCR) */
+const MIN_PAGE_CHARS = 50;
+const MAX_BROKEN_RATIO = 0.01;
+const MAX_LEGACY_RATIO = 0.03;
+const MAX_MALFORMED_RATIO = 0.02;
+const MIN_BENGALI_SIGNS = 20;
+
+/** Replacement character, private-use glyphs and control characters other than whitespace */
+const BROKEN_CHARS = /[\uFFFD\uE000-\uF8FF\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+/**
+ * Legacy Bengali fonts (SutonnyMJ and other Bijoy fonts) map glyphs onto Latin-1 and
+ * typographic code points, so their text layer reads like "Avgvi †mvbvi evsjv"
+ */
+const LEGACY_FONT_CHARS = /[\u00A1-\u00FF\u0152\u0153\u0160\u0161\u0192\u02C6\u02DC\u2020\u2021\u2030\u2039\u203A\u2122]/g;
+
+/**
+ * A vowel sign or hasanta must follow a consonant (or nukta). Text layers without a
+ * proper ToUnicode map store pre-base kars in visual order ("িক" instead of "কি").
+ */
+const BENGALI_SIGNS = /[\u09BE-\u09CD]/g;
+const MALFORMED_SIGNS = /(^|[^\u0995-\u09B9\u09CE\u09DC-\u09DF\u09BC])[\u09BE-\u09CD]/gm;
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+/**
+ * Decide whether a page's embedded text can be used as is, or the page needs OCR
+ */
+export function assessTextLayer(text: string): TextLayerAssessment {
+  const visible = text.replace(/\s+/g, "");
+  if (visible.length < MIN_PAGE_CHARS) {
+    return { usable: false, issue: "too-short" };
+  }
+
+  const brokenRatio = countMatches(visible, BROKEN_CHARS) / visible.length;
+  if (brokenRatio > MAX_BROKEN_RATIO) {
+    return { usable: false, issue: "broken-unicode", ratio: brokenRatio };
+  }
+
+  const legacyRatio = countMatches(visible, LEGACY_FONT_CHARS) / visible.length;
+  if (legacyRatio > MAX_LEGACY_RATIO) {
+    return { usable: false, issue: "legacy-font", ratio: legacyRatio };
+  }
+
+  const signs = countMatches(text, BENGALI_SIGNS);
+  if (signs >= MIN_BENGALI_SIGNS) {
+    const malformedRatio = countMatches(text, MALFORMED_SIGNS) / signs;
+    if (malformedRatio > MAX_MALFORMED_RATIO) {
+      return { usable: false, issue: "malformed-bengali", ratio: malformedRatio };
+    }
+  }
+
+  return { usable: true };
+}
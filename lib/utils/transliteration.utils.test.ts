@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { isRomanizedBengali } from "./transliteration.utils";
+
+describe("isRomanizedBengali", () => {
+  it.each(["anupamer mama ke?", "Harish ke?", "kalyanir boyos koto chilo", "onupomer bhagyo debota ke", "golpo ta kar lekha"])("detects Banglish: %s", (question) => {
+    expect(isRomanizedBengali(question)).toBe(true);
+  });
+
+  it.each(["Anupam's uncle", "Describe Harish", "Who is Kalyani's father?", "What did Shambhunath say to Anupam's uncle?", "Why did Rabindranath write Aparichita"])("keeps English questions about the book's people: %s", (question) => {
+    expect(isRomanizedBengali(question)).toBe(false);
+  });
+
+  it("ignores text in Bengali script", () => {
+    expect(isRomanizedBengali("অনুপমের মামা কে?")).toBe(false);
+  });
+});
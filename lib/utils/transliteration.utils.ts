@@ -0,0 +1,293 @@
+/**
+ * Romanized Bengali ("Banglish") detection and transliteration to Bengali script.
+ *
+ * Known words (question words, particles and names from the book) are looked up
+ * in a dictionary; anything else goes through a phonetic, Avro-style mapping.
+ * The phonetic output is approximate, which is fine for retrieval: the BM25
+ * analyzer and the embeddings both tolerate small spelling differences.
+ */
+
+/** Common Banglish words whose spelling the phonetic rules would get wrong */
+const WORDS: Record<string, string> = {
+  // Question words and particles
+  ke: "কে",
+  ki: "কী",
+  keno: "কেন",
+  kothay: "কোথায়",
+  kotha: "কথা",
+  kokhon: "কখন",
+  koto: "কত",
+  kon: "কোন",
+  kake: "কাকে",
+  kar: "কার",
+  kivabe: "কীভাবে",
+  kibhabe: "কীভাবে",
+  kemon: "কেমন",
+  er: "এর",
+  ar: "আর",
+  o: "ও",
+  na: "না",
+  ta: "টা",
+  ti: "টি",
+  te: "তে",
+  theke: "থেকে",
+  jonno: "জন্য",
+  hoy: "হয়",
+  hoyeche: "হয়েছে",
+  holo: "হলো",
+  hoyechilo: "হয়েছিল",
+  chilo: "ছিল",
+  chhilo: "ছিল",
+  ache: "আছে",
+  achhe: "আছে",
+  ami: "আমি",
+  amar: "আমার",
+  tumi: "তুমি",
+  tar: "তার",
+  take: "তাকে",
+  tara: "তারা",
+  se: "সে",
+  bole: "বলে",
+  boyos: "বয়স",
+  boyosh: "বয়স",
+  bhagyo: "ভাগ্য",
+  debota: "দেবতা",
+  bie: "বিয়ে",
+  biye: "বিয়ে",
+  bibaho: "বিবাহ",
+  golpo: "গল্প",
+  kobita: "কবিতা",
+  lekhok: "লেখক",
+  uttor: "উত্তর",
+  prosno: "প্রশ্ন",
+  proshno: "প্রশ্ন",
+  nam: "নাম",
+  baba: "বাবা",
+  ma: "মা",
+  mama: "মামা",
+  meye: "মেয়ে",
+  chele: "ছেলে",
+};
+
+/** Names from the book; English questions use them too, so they never count as Banglish markers */
+const NAMES: Record<string, string> = {
+  anupam: "অনুপম",
+  onupom: "অনুপম",
+  kalyani: "কল্যাণী",
+  kolyani: "কল্যাণী",
+  shombhunath: "শম্ভুনাথ",
+  shambhunath: "শম্ভুনাথ",
+  harish: "হরিশ",
+  binu: "বিনু",
+  rabindranath: "রবীন্দ্রনাথ",
+  robindronath: "রবীন্দ্রনাথ",
+  thakur: "ঠাকুর",
+  aparichita: "অপরিচিতা",
+  oporichita: "অপরিচিতা",
+  kolkata: "কলকাতা",
+  kanpur: "কানপুর",
+};
+
+const DICTIONARY: Record<string, string> = { ...WORDS, ...NAMES };
+
+/** Case endings attached to dictionary words ("kalyanir" → কল্যাণী + র) */
+const SUFFIXES: [string, string][] = [
+  ["der", "দের"],
+  ["er", "ের"],
+  ["ke", "কে"],
+  ["te", "তে"],
+  ["ra", "রা"],
+  ["r", "র"],
+];
+
+/** Frequent Banglish words that do not occur in English text; used for detection */
+const MARKERS = new Set(Object.keys(WORDS).filter((word) => !["o", "ma", "ar", "na", "te", "se", "ti", "ta", "take", "ache"].includes(word)));
+
+/** Common English words; a Latin-script question full of these is English, not Banglish */
+const ENGLISH_WORDS = new Set([
+  "a", "an", "the", "is", "are", "was", "were", "be", "been", "what", "who", "whom", "whose", "which", "why", "how",
+  "when", "where", "of", "in", "on", "to", "for", "with", "from", "by", "and", "or", "his", "her", "their", "does",
+  "did", "do", "name", "story", "about", "this", "that", "it", "he", "she", "they", "him", "them", "has", "have",
+  "had", "not", "can", "could", "would", "should", "will", "i", "you", "me", "my", "your", "s", "describe", "explain",
+  "tell", "give", "character", "poem", "author", "uncle", "mother", "father", "age", "old", "mean", "meaning",
+]);
+
+const INDEPENDENT_VOWELS: [string, string][] = [
+  ["aa", "আ"],
+  ["oi", "ঐ"],
+  ["ou", "ঔ"],
+  ["ee", "ঈ"],
+  ["ii", "ঈ"],
+  ["oo", "ঊ"],
+  ["uu", "ঊ"],
+  ["a", "আ"],
+  ["i", "ই"],
+  ["u", "উ"],
+  ["e", "এ"],
+  ["o", "অ"],
+];
+
+/** Vowel signs after a consonant; "o" is the inherent vowel and adds nothing */
+const VOWEL_SIGNS: [string, string][] = [
+  ["aa", "া"],
+  ["oi", "ৈ"],
+  ["ou", "ৌ"],
+  ["ee", "ী"],
+  ["ii", "ী"],
+  ["oo", "ূ"],
+  ["uu", "ূ"],
+  ["a", "া"],
+  ["i", "ি"],
+  ["u", "ু"],
+  ["e", "ে"],
+  ["o", ""],
+];
+
+/** Longest patterns first so digraphs win over single letters */
+const CONSONANTS: [string, string][] = [
+  ["kkh", "ক্ষ"],
+  ["ksh", "ক্ষ"],
+  ["chh", "ছ"],
+  ["ch", "চ"],
+  ["kh", "খ"],
+  ["gh", "ঘ"],
+  ["ng", "ং"],
+  ["jh", "ঝ"],
+  ["th", "থ"],
+  ["dh", "ধ"],
+  ["ph", "ফ"],
+  ["bh", "ভ"],
+  ["sh", "শ"],
+  ["k", "ক"],
+  ["g", "গ"],
+  ["c", "চ"],
+  ["j", "জ"],
+  ["t", "ত"],
+  ["d", "দ"],
+  ["n", "ন"],
+  ["p", "প"],
+  ["f", "ফ"],
+  ["b", "ব"],
+  ["v", "ভ"],
+  ["m", "ম"],
+  ["z", "য"],
+  ["r", "র"],
+  ["l", "ল"],
+  ["s", "স"],
+  ["h", "হ"],
+  ["x", "ক্স"],
+  ["q", "ক"],
+];
+
+const HASANTA = "্";
+
+function matchPrefix(word: string, position: number, table: [string, string][]): [string, string] | null {
+  for (const entry of table) {
+    if (word.startsWith(entry[0], position)) {
+      return entry;
+    }
+  }
+  return null;
+}
+
+/**
+ * Dictionary lookup, also for dictionary words with a case ending
+ */
+function lookupWord(word: string): string | null {
+  if (DICTIONARY[word]) {
+    return DICTIONARY[word];
+  }
+
+  for (const [suffix, bengaliSuffix] of SUFFIXES) {
+    const stem = word.slice(0, -suffix.length);
+    if (word.endsWith(suffix) && stem.length >= 3 && DICTIONARY[stem]) {
+      return DICTIONARY[stem] + bengaliSuffix;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Phonetic transliteration of a single lowercase Latin word
+ */
+function transliterateWord(word: string): string {
+  let output = "";
+  let afterConsonant = false;
+  let position = 0;
+
+  while (position < word.length) {
+    const vowel = matchPrefix(word, position, afterConsonant ? VOWEL_SIGNS : INDEPENDENT_VOWELS);
+    if (vowel) {
+      output += vowel[1];
+      position += vowel[0].length;
+      afterConsonant = false;
+      continue;
+    }
+
+    // "y"/"w" are semivowels: য-ফলা after a consonant, য় elsewhere; "w" reads as ও
+    const char = word[position];
+    if (char === "y") {
+      output += afterConsonant ? HASANTA + "য" : position === 0 ? "য" : "য়";
+      position++;
+      afterConsonant = true;
+      continue;
+    }
+    if (char === "w") {
+      output += "ও";
+      position++;
+      afterConsonant = false;
+      continue;
+    }
+
+    const consonant = matchPrefix(word, position, CONSONANTS);
+    if (consonant) {
+      // "ng" before a vowel is the consonant ঙ ("bhenge" → ভেঙে), otherwise anusvara
+      const next = word[position + consonant[0].length];
+      const letter = consonant[1] === "ং" && next && "aeiou".includes(next) ? "ঙ" : consonant[1];
+      // Two consonants in a row form a conjunct (e.g. "mbh" → ম্ভ)
+      output += (afterConsonant && letter !== "ং" ? HASANTA : "") + letter;
+      position += consonant[0].length;
+      afterConsonant = letter !== "ং";
+      continue;
+    }
+
+    output += char;
+    position++;
+    afterConsonant = false;
+  }
+
+  return output;
+}
+
+/**
+ * Detect Bengali typed in Latin script: no Bengali characters, and Banglish
+ * marker words clearly outnumber English words. Names from the book are not
+ * markers, so an English question about "Anupam" stays English.
+ */
+export function isRomanizedBengali(text: string): boolean {
+  if (/[\u0980-\u09FF]/.test(text)) {
+    return false;
+  }
+
+  const words = text.toLowerCase().match(/[a-z]+/g) || [];
+  if (words.length === 0) {
+    return false;
+  }
+
+  const markerCount = words.filter((word) => MARKERS.has(word)).length;
+  const englishCount = words.filter((word) => ENGLISH_WORDS.has(word)).length;
+
+  return markerCount > englishCount && markerCount / words.length >= 0.3;
+}
+
+/**
+ * Convert romanized Bengali to Bengali script, keeping punctuation and digits.
+ * Dictionary words are used as-is; other words are transliterated phonetically.
+ */
+export function transliterateToBengali(text: string): string {
+  return text.replace(/[A-Za-z]+/g, (word) => {
+    const lower = word.toLowerCase();
+    return lookupWord(lower) || transliterateWord(lower);
+  });
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { mergeNeighborWindows } from "./vector-query.utils";
+
+describe("mergeNeighborWindows", () => {
+  it("merges windows that only touch after a later hit bridges them", () => {
+    // Window 2 around chunks 2, 10 and 6: [0..4] and [8..12] are joined by [4..8]
+    expect(mergeNeighborWindows([2, 10, 6], 2)).toEqual([{ start: 0, end: 12, ranks: [0, 1, 2] }]);
+  });
+
+  it("keeps separate passages disjoint and ordered by their best hit", () => {
+    const windows = mergeNeighborWindows([20, 3, 5, 30], 1);
+
+    expect(windows).toEqual([
+      { start: 19, end: 21, ranks: [0] },
+      { start: 2, end: 6, ranks: [1, 2] },
+      { start: 29, end: 31, ranks: [3] },
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+import { MetadataFilter, VectorMatch, VectorMetadata, VectorQueryResult } from "../types/vector-store.types";
+import { RetrievalResult, RetrievedChunk } from "../types/retrieval.types";
+
+/**
+ * Vector id of a book chunk; ids are derived from chunk_index so neighbouring chunks can be looked up directly
+ */
+export function chunkVectorId(chunkIndex: number): string {
+  return `hsc26_chunk_${chunkIndex}`;
+}
+
+/**
+ * Merge the ±window chunk ranges of ranked hits into disjoint passages. Ranges are sorted by
+ * start and swept, so ranges that overlap or touch end up in one passage whatever order the
+ * hits were ranked in. `ranks` lists the hits (by position in `chunkIndices`) in each passage,
+ * best first; passages are ordered by their best hit.
+ */
+export function mergeNeighborWindows(chunkIndices: number[], window: number): Array<{ start: number; end: number; ranks: number[] }> {
+  const ranges = chunkIndices
+    .map((chunkIndex, rank) => ({ start: Math.max(0, chunkIndex - window), end: chunkIndex + window, ranks: [rank] }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: Array<{ start: number; end: number; ranks: number[] }> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+      last.ranks.push(...range.ranks);
+    } else {
+      merged.push(range);
+    }
+  }
+
+  merged.forEach((passage) => passage.ranks.sort((a, b) => a - b));
+  return merged.sort((a, b) => a.ranks[0] - b.ranks[0]);
+}
+
+/**
+ * Check chunk metadata against a filter. Chunks without page information never
+ * match a page-bounded filter.
+ */
+export function matchesMetadataFilter(metadata: VectorMetadata | undefined, filter?: MetadataFilter): boolean {
+  if (!filter) {
+    return true;
+  }
+  if (!metadata) {
+    return false;
+  }
+  if (filter.source !== undefined && metadata.source !== filter.source) {
+    return false;
+  }
+  if (filter.chapter !== undefined && metadata.chapter !== filter.chapter) {
+    return false;
+  }
+  if (filter.section_type !== undefined && metadata.section_type !== filter.section_type) {
+    return false;
+  }
+  if (filter.section_title !== undefined && metadata.section_title !== filter.section_title) {
+    return false;
+  }
+  if (filter.doc_type !== undefined && (metadata.doc_type || "text") !== filter.doc_type) {
+    return false;
+  }
+  if (filter.page_start !== undefined && (metadata.page_end === undefined || metadata.page_end < filter.page_start)) {
+    return false;
+  }
+  if (filter.page_end !== undefined && (metadata.page_start === undefined || metadata.page_start > filter.page_end)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Describe a filter for logs, e.g. `chapter="অপরিচিতা", pages 10-25`
+ */
+export function describeMetadataFilter(filter: MetadataFilter): string {
+  const parts: string[] = [];
+  if (filter.source !== undefined) parts.push(`source="${filter.source}"`);
+  if (filter.chapter !== undefined) parts.push(`chapter="${filter.chapter}"`);
+  if (filter.section_type !== undefined) parts.push(`section=${filter.section_type}`);
+  if (filter.section_title !== undefined) parts.push(`title="${filter.section_title}"`);
+  if (filter.doc_type !== undefined) parts.push(`type=${filter.doc_type}`);
+  if (filter.page_start !== undefined || filter.page_end !== undefined) {
+    parts.push(`pages ${filter.page_start ?? "…"}-${filter.page_end ?? "…"}`);
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Build a query result (contexts, scores and metrics) from ranked vector matches
+ */
+export function buildVectorQueryResult(matches: VectorMatch[], threshold: number): VectorQueryResult {
+  const allScores = matches.map((match) => match.score || 0);
+  const relevantMatches = matches.filter((match) => match.score && match.score > threshold && match.metadata?.content);
+
+  const contexts = relevantMatches.map((match) => match.metadata!.content);
+  const searchScores = relevantMatches.map((match) => match.score || 0);
+  const averageSimilarity = allScores.length > 0 ? allScores.reduce((sum, score) => sum + score, 0) / allScores.length : 0;
+
+  return {
+    contexts,
+    searchScores,
+    retrievalMetrics: {
+      totalRetrieved: matches.length,
+      aboveThreshold: contexts.length,
+      averageSimilarity: Math.round(averageSimilarity * 100) / 100,
+    },
+    matches: relevantMatches,
+  };
+}
+
+/**
+ * Empty query result used when retrieval fails or returns nothing
+ */
+export function emptyVectorQueryResult(): VectorQueryResult {
+  return {
+    contexts: [],
+    searchScores: [],
+    retrievalMetrics: {
+      totalRetrieved: 0,
+      aboveThreshold: 0,
+      averageSimilarity: 0,
+    },
+    matches: [],
+  };
+}
+
+/**
+ * Convert semantic vector matches into ranked retrieval chunks
+ */
+export function chunksFromVectorMatches(matches: VectorMatch[]): RetrievedChunk[] {
+  return matches
+    .filter((match) => match.metadata?.content)
+    .map((match) => ({
+      id: match.id,
+      content: match.metadata!.content,
+      score: match.score,
+      metadata: match.metadata,
+      sources: ["semantic"],
+      semanticScore: match.score,
+    }));
+}
+
+/**
+ * Build a retrieval result from ranked chunks. Scores, matches and the average similarity are
+ * taken from the chunks so they stay aligned with the contexts after every later stage;
+ * only the number of candidates retrieved comes from the base query.
+ */
+export function buildRetrievalResult(base: VectorQueryResult, chunks: RetrievedChunk[]): RetrievalResult {
+  const similarities = chunks.flatMap((chunk) => (chunk.semanticScore !== undefined ? [chunk.semanticScore] : []));
+  return {
+    ...base,
+    contexts: chunks.map((chunk) => chunk.content),
+    searchScores: chunks.map((chunk) => chunk.score),
+    matches: chunks.map((chunk) => ({ id: chunk.id, score: chunk.score, metadata: chunk.metadata })),
+    chunks,
+    retrievalMetrics: {
+      ...base.retrievalMetrics,
+      aboveThreshold: chunks.length,
+      averageSimilarity: similarities.length > 0 ? Math.round((similarities.reduce((sum, score) => sum + score, 0) / similarities.length) * 100) / 100 : 0,
+    },
+  };
+}
+
+/**
+ * Empty retrieval result used when retrieval fails
+ */
+export function emptyRetrievalResult(): RetrievalResult {
+  return { ...emptyVectorQueryResult(), chunks: [] };
+}
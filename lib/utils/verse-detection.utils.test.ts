@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { PageSpan } from "../types/pdf-processing.types";
+import { buildPagedText } from "./text-processing.utils";
+import { splitVerseLines } from "./verse-detection.utils";
+
+const HEADER = "বাংলা সাহিত্য";
+
+function numbered(text: string, pageSpans: PageSpan[] = []) {
+  return splitVerseLines(text, 0, text.length, pageSpans).map((line) => [line.stanza, line.line, line.text]);
+}
+
+describe("splitVerseLines", () => {
+  it("numbers stanzas by blank lines", () => {
+    expect(numbered("গগনে গরজে মেঘ\nঘন বরষা\n\nকূলে একা বসে আছি\nনাহি ভরসা")).toEqual([
+      [1, 1, "গগনে গরজে মেঘ"],
+      [1, 2, "ঘন বরষা"],
+      [2, 3, "কূলে একা বসে আছি"],
+      [2, 4, "নাহি ভরসা"],
+    ]);
+  });
+
+  it("keeps a stanza together across a page break and drops headers and page numbers", () => {
+    const { text, pageSpans } = buildPagedText([
+      { page: 12, text: `${HEADER}\n\nগগনে গরজে মেঘ\nঘন বরষা\n\n১২` },
+      { page: 13, text: `${HEADER}\n\nকূলে একা বসে আছি\nনাহি ভরসা\n\nরাশি রাশি ভারা ভারা\nধান কাটা হলো সারা\n\n১৩` },
+    ]);
+
+    expect(numbered(text, pageSpans)).toEqual([
+      [1, 1, "গগনে গরজে মেঘ"],
+      [1, 2, "ঘন বরষা"],
+      [1, 3, "কূলে একা বসে আছি"],
+      [1, 4, "নাহি ভরসা"],
+      [2, 5, "রাশি রাশি ভারা ভারা"],
+      [2, 6, "ধান কাটা হলো সারা"],
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { PageSpan, VerseLine } from "../types/pdf-processing.types";
+
+/**
+ * Poems are printed as short lines grouped into stanzas by blank lines, while OCR'd
+ * prose lines run the full width of the page. Verse is told apart by line length.
+ */
+const MIN_VERSE_LINES = 4;
+const MAX_MEDIAN_LINE_LENGTH = 40;
+const MIN_SHORT_LINE_RATIO = 0.7;
+const SHORT_LINE_LENGTH = 50;
+/** A printed page number, in Bengali or ASCII digits, possibly between dashes */
+const PAGE_NUMBER_LINE = /^[\d\u09E6-\u09EF\s\-\u2013\u2014]+$/;
+
+/**
+ * Lines of text[start, end) with offsets in the full text; blank lines are kept as empty entries
+ */
+function splitLineSpans(text: string, start: number, end: number): Array<{ text: string; start: number; end: number }> {
+  const lines: Array<{ text: string; start: number; end: number }> = [];
+  let offset = start;
+  for (const raw of text.slice(start, end).split("\n")) {
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    lines.push({ text: trimmed, start: offset + leading, end: offset + leading + trimmed.length });
+    offset += raw.length + 1;
+  }
+  return lines;
+}
+
+/**
+ * Whether text[start, end) reads as a poem: enough lines, mostly short ones
+ */
+export function isVerse(text: string, start: number = 0, end: number = text.length): boolean {
+  const lengths = splitLineSpans(text, start, end)
+    .filter((line) => line.text && /[\u0980-\u09FF]/.test(line.text))
+    .map((line) => line.text.length)
+    .sort((a, b) => a - b);
+
+  if (lengths.length < MIN_VERSE_LINES) {
+    return false;
+  }
+
+  const median = lengths[Math.floor(lengths.length / 2)];
+  const shortLines = lengths.filter((length) => length <= SHORT_LINE_LENGTH).length;
+  return median <= MAX_MEDIAN_LINE_LENGTH && shortLines / lengths.length >= MIN_SHORT_LINE_RATIO;
+}
+
+/**
+ * Offsets of running headers and footers: the first or last line of a page whose
+ * text also opens or closes another page
+ */
+function findRunningHeaders(text: string, pageSpans: PageSpan[]): Set<number> {
+  const edges = new Map<string, number[]>();
+  for (const span of pageSpans) {
+    const lines = splitLineSpans(text, span.start, span.end).filter((line) => line.text);
+    const pageEdges = lines.length > 1 ? [lines[0], lines[lines.length - 1]] : lines;
+    pageEdges.forEach((line) => edges.set(line.text, [...(edges.get(line.text) || []), line.start]));
+  }
+  return new Set(Array.from(edges.values()).flatMap((starts) => (starts.length > 1 ? starts : [])));
+}
+
+/**
+ * Split a poem in text[start, end) into lines numbered by stanza (blank-line separated)
+ * and by position in the poem. Page numbers and running headers are dropped, and with
+ * `pageSpans` a blank line between two pages (as joined by buildPagedText) does not
+ * start a new stanza.
+ */
+export function splitVerseLines(text: string, start: number = 0, end: number = text.length, pageSpans: PageSpan[] = []): VerseLine[] {
+  const verseLines: VerseLine[] = [];
+  const runningHeaders = findRunningHeaders(text, pageSpans);
+  const pageOf = (offset: number) => pageSpans.find((span) => span.start <= offset && offset < span.end)?.page;
+  let stanza = 0;
+  let previousBlank = false;
+  let previousPage: number | undefined;
+
+  for (const line of splitLineSpans(text, start, end)) {
+    if (!line.text) {
+      previousBlank = true;
+      continue;
+    }
+    if (PAGE_NUMBER_LINE.test(line.text) || runningHeaders.has(line.start)) {
+      continue;
+    }
+
+    const page = pageOf(line.start);
+    if (verseLines.length === 0 || (previousBlank && page === previousPage)) {
+      stanza++;
+    }
+    previousBlank = false;
+    previousPage = page;
+    verseLines.push({ ...line, stanza, line: verseLines.length + 1 });
+  }
+
+  return verseLines;
+}